@@ -0,0 +1,115 @@
+// Build-time Markdown ingestion for the DeepWiki corpus.
+//
+// Usage:
+//   npm run ingest -- <dir>                                   validate only
+//   npm run ingest -- <dir> --out docs.kv.json                write a `wrangler kv bulk put` file
+//   npm run ingest -- <dir> --upload <url>/admin/ingest       upload through the admin route
+//
+// Uploads authenticate with --token or the DEEPWIKI_ACCESS_TOKEN environment variable.
+
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import { type DeepWikiDocument, revisionId } from "../src/deepwiki-data";
+import { withWriteTime } from "../src/document-store";
+import { DocumentValidationError, parseMarkdownDocument } from "../src/markdown-ingest";
+
+async function findMarkdownFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return findMarkdownFiles(path);
+      }
+      return /\.(md|markdown)$/i.test(entry.name) ? [path] : [];
+    }),
+  );
+  return files.flat().sort();
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dir = args[0];
+  if (!dir || dir.startsWith("--")) {
+    console.error("Usage: npm run ingest -- <dir> [--out <file>] [--upload <url> [--token <token>]]");
+    process.exit(1);
+  }
+
+  const paths = await findMarkdownFiles(dir);
+  const documents: DeepWikiDocument[] = [];
+  const sources = new Map<string, string>();
+  let failed = false;
+
+  for (const path of paths) {
+    const source = relative(dir, path);
+    try {
+      const doc = parseMarkdownDocument(source, await readFile(path, "utf8"));
+      const revision = revisionId(doc);
+      if (sources.has(revision)) {
+        console.error(`✗ ${source}: duplicate revision ${revision} (also in ${sources.get(revision)})`);
+        failed = true;
+        continue;
+      }
+      sources.set(revision, source);
+      documents.push(doc);
+      console.log(`✓ ${source} -> ${doc.id}`);
+    } catch (error) {
+      if (!(error instanceof DocumentValidationError)) {
+        throw error;
+      }
+      for (const issue of error.issues) {
+        console.error(`✗ ${source}: ${issue.field}: ${issue.message}`);
+      }
+      failed = true;
+    }
+  }
+
+  if (failed) {
+    console.error("Validation failed, nothing written");
+    process.exit(1);
+  }
+  console.log(`${documents.length} documents valid`);
+
+  const out = option(args, "--out");
+  if (out) {
+    const bulk = withWriteTime(documents).map((doc) => ({ key: `doc:${revisionId(doc)}`, value: JSON.stringify(doc) }));
+    await writeFile(out, JSON.stringify(bulk, null, 2));
+    console.log(`Wrote ${out}; load it with: wrangler kv bulk put ${out} --binding DOCS_KV`);
+  }
+
+  const upload = option(args, "--upload");
+  if (upload) {
+    const token = option(args, "--token") ?? process.env.DEEPWIKI_ACCESS_TOKEN;
+    if (!token) {
+      console.error("--upload needs --token or DEEPWIKI_ACCESS_TOKEN");
+      process.exit(1);
+    }
+
+    const form = new FormData();
+    for (const path of paths) {
+      form.append("file", new Blob([await readFile(path, "utf8")], { type: "text/markdown" }), relative(dir, path));
+    }
+
+    const response = await fetch(upload, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}` },
+      body: form,
+    });
+    const body = await response.text();
+    if (!response.ok) {
+      console.error(`Upload failed: ${response.status} ${body}`);
+      process.exit(1);
+    }
+    console.log(`Uploaded: ${body}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+// Document access control. A document's metadata.access says who may read it:
+//
+//   public (or no access field)  everyone
+//   org:<org>                    members of the GitHub organization
+//   team:<org>/<team-slug>       members of the GitHub team
+//   repo:<owner>/<repo>          pages of a private repository indexed on
+//                                demand; see github-wiki.ts
+//
+// A caller's memberships are read with their GitHub token at login (see
+// github-handler.ts) and kept in the grant's props, so they are fixed for the
+// life of the session. Unreadable documents are treated as missing everywhere:
+// search, fetch, resources and prompts.
+
+import { z } from "zod";
+import type { DeepWikiDocument } from "./deepwiki-data";
+import type { Props } from "./utils";
+
+export const PUBLIC_ACCESS = "public";
+
+export const documentAccessSchema = z
+  .string()
+  .regex(/^(?:public|org:[\w.-]+|team:[\w.-]+\/[\w.-]+)$/i, 'must be "public", "org:<org>" or "team:<org>/<team-slug>"');
+
+// Whether the caller may read a document
+export type DocumentFilter = (doc: DeepWikiDocument) => boolean;
+
+/**
+ * What a caller may read, given the memberships in their props. Sessions
+ * from before memberships were recorded can read public documents only.
+ * Documents of private repositories are never readable here: only the
+ * repository tools and fetch serve them, after checking the caller's own
+ * access to the repository on GitHub.
+ */
+export function documentAccess(props: Pick<Props, "orgs" | "teams"> | undefined): DocumentFilter {
+  const orgs = new Set(props?.orgs?.map((org) => org.toLowerCase()));
+  const teams = new Set(props?.teams?.map((team) => team.toLowerCase()));
+  return (doc) => {
+    const access = (doc.metadata.access ?? PUBLIC_ACCESS).toLowerCase();
+    if (access === PUBLIC_ACCESS) {
+      return true;
+    }
+    if (access.startsWith("org:")) {
+      return orgs.has(access.slice("org:".length));
+    }
+    if (access.startsWith("team:")) {
+      return teams.has(access.slice("team:".length));
+    }
+    return false;
+  };
+}
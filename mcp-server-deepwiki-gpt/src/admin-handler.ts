@@ -0,0 +1,297 @@
+import { type Context, Hono } from "hono";
+import { z } from "zod";
+import { PUBLIC_ACCESS } from "./access";
+import { type DeepWikiDocument, documentUrl, groupRevisions, revisionId } from "./deepwiki-data";
+import { deepWikiDocumentSchema, deleteDocuments, getDocumentStore, putDocuments } from "./document-store";
+import { DocumentValidationError, type IngestIssue, parseMarkdownDocument } from "./markdown-ingest";
+import type { Props } from "./utils";
+
+const app = new Hono<{ Bindings: Env }>();
+
+// GitHub logins allowed to use the admin routes, from the comma-separated ADMIN_LOGINS var
+function adminLogins(env: Env): string[] {
+  return (env.ADMIN_LOGINS ?? "")
+    .split(",")
+    .map((login) => login.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Admin routes sit behind the OAuth provider, so props carry the caller's GitHub login
+app.use("/admin/*", async (c, next) => {
+  const props = c.executionCtx.props as Props | undefined;
+  if (!props?.login || !adminLogins(c.env).includes(props.login.toLowerCase())) {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+  await next();
+});
+
+/**
+ * Markdown Ingestion Endpoint
+ *
+ * Accepts either a single Markdown file as the request body (text/markdown,
+ * named with `?name=`) or any number of files as multipart/form-data. Every
+ * file must parse into a valid document before anything is written.
+ */
+app.post("/admin/ingest", async (c) => {
+  const contentType = c.req.header("content-type") ?? "";
+  const files: { name: string; markdown: string }[] = [];
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await c.req.formData();
+    for (const [field, value] of form.entries()) {
+      if (typeof value === "string") {
+        files.push({ name: field, markdown: value });
+      } else {
+        files.push({ name: value.name || field, markdown: await value.text() });
+      }
+    }
+  } else {
+    files.push({ name: c.req.query("name") ?? "upload.md", markdown: await c.req.text() });
+  }
+
+  if (files.length === 0 || files.every((file) => !file.markdown.trim())) {
+    return c.json({ error: "No Markdown content in request" }, 400);
+  }
+
+  const documents: DeepWikiDocument[] = [];
+  const errors: { source: string; issues: { field: string; message: string }[] }[] = [];
+  for (const file of files) {
+    try {
+      documents.push(parseMarkdownDocument(file.name, file.markdown));
+    } catch (error) {
+      if (!(error instanceof DocumentValidationError)) {
+        throw error;
+      }
+      errors.push({ source: error.source, issues: error.issues });
+    }
+  }
+
+  // Several versions of a document may be uploaded together, but each only once
+  const seen = new Set<string>();
+  for (const doc of documents) {
+    const revision = revisionId(doc);
+    if (seen.has(revision)) {
+      errors.push({ source: revision, issues: [{ field: "metadata.version", message: `duplicate revision ${revision} in upload` }] });
+    }
+    seen.add(revision);
+  }
+
+  if (errors.length > 0) {
+    return c.json({ error: "Validation failed", errors }, 400);
+  }
+
+  await putDocuments(c.env, documents);
+  console.log(`Ingested ${documents.length} Markdown documents into ${getDocumentStore(c.env).name} store`);
+
+  return c.json({
+    store: getDocumentStore(c.env).name,
+    ingested: documents.map((doc) => doc.id),
+  });
+});
+
+/**
+ * Document API
+ *
+ * CRUD on the configured document store, one JSON DeepWikiDocument at a time
+ * or as NDJSON in bulk. Writes are validated against the document schema and
+ * reindex this isolate's search; other isolates pick them up when their cache
+ * expires. Documents are addressed by ID in the path (percent-encoded), and a
+ * revision other than the latest by `?version=`.
+ */
+
+type ValidationErrors = { source: string; issues: IngestIssue[] }[];
+
+function validationIssues(error: z.ZodError): IngestIssue[] {
+  return error.issues.map((issue) => ({ field: issue.path.join(".") || "document", message: issue.message }));
+}
+
+// Read from the store itself: a cached search may not have seen other isolates' writes yet
+async function storedRevisions(env: Env): Promise<Map<string, DeepWikiDocument[]>> {
+  return groupRevisions(await getDocumentStore(env).loadDocuments());
+}
+
+// The revision with `version`, or the latest one when no version is given
+function findRevision(revisions: DeepWikiDocument[] | undefined, version: string | undefined): DeepWikiDocument | undefined {
+  if (!revisions) {
+    return undefined;
+  }
+  return version === undefined ? revisions[revisions.length - 1] : revisions.find((doc) => doc.metadata.version === version);
+}
+
+// Versions of a document, newest first
+function versionsOf(revisions: DeepWikiDocument[]): string[] {
+  return revisions.map((doc) => doc.metadata.version).reverse();
+}
+
+function notFound(c: Context<{ Bindings: Env }>, id: string, version: string | undefined) {
+  return c.json({ error: `Document ${version === undefined ? id : `${id}@${version}`} not found` }, 404);
+}
+
+// The request body as JSON, or undefined if it isn't valid JSON
+async function jsonBody(c: Context<{ Bindings: Env }>): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch {
+    return undefined;
+  }
+}
+
+// Fields PATCH may change; `url: null` removes the URL. Changing metadata.version adds a revision
+const documentPatchSchema = z
+  .object({
+    title: z.string().min(1),
+    content: z.string(),
+    url: z.string().url().nullable(),
+    // The write time is set by the store
+    metadata: deepWikiDocumentSchema.shape.metadata.omit({ updatedAt: true }).partial().strict(),
+  })
+  .partial()
+  .strict();
+
+app.get("/admin/documents", async (c) => {
+  const revisions = await storedRevisions(c.env);
+  const documents = [...revisions.values()].map((list) => {
+    const latest = list[list.length - 1];
+    return {
+      id: latest.id,
+      title: latest.title,
+      url: documentUrl(latest),
+      category: latest.metadata.category,
+      tags: latest.metadata.tags,
+      access: latest.metadata.access ?? PUBLIC_ACCESS,
+      version: latest.metadata.version,
+      versions: versionsOf(list),
+    };
+  });
+  return c.json({ store: getDocumentStore(c.env).name, total: documents.length, documents });
+});
+
+app.get("/admin/documents/:id", async (c) => {
+  const id = c.req.param("id");
+  const version = c.req.query("version");
+  const revisions = (await storedRevisions(c.env)).get(id);
+  const document = findRevision(revisions, version);
+  if (!revisions || !document) {
+    return notFound(c, id, version);
+  }
+  return c.json({ document, versions: versionsOf(revisions) });
+});
+
+// Adds a revision, or replaces the one with the same version. The body's ID may be omitted
+app.put("/admin/documents/:id", async (c) => {
+  const id = c.req.param("id");
+  const body = await jsonBody(c);
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return c.json({ error: "Request body must be a JSON document" }, 400);
+  }
+
+  const parsed = deepWikiDocumentSchema.safeParse({ id, ...body });
+  if (!parsed.success) {
+    return c.json({ error: "Validation failed", errors: [{ source: id, issues: validationIssues(parsed.error) }] }, 400);
+  }
+  if (parsed.data.id !== id) {
+    return c.json(
+      { error: "Validation failed", errors: [{ source: id, issues: [{ field: "id", message: "must match the ID in the path" }] }] },
+      400,
+    );
+  }
+
+  const revisions = (await storedRevisions(c.env)).get(id) ?? [];
+  const created = !revisions.some((doc) => doc.metadata.version === parsed.data.metadata.version);
+  const [document] = await putDocuments(c.env, [parsed.data]);
+  console.log(`Admin ${created ? "added" : "replaced"} document ${revisionId(document)} in ${getDocumentStore(c.env).name} store`);
+
+  return c.json({ store: getDocumentStore(c.env).name, document }, created ? 201 : 200);
+});
+
+// Updates fields of the latest revision, or of `?version=`
+app.patch("/admin/documents/:id", async (c) => {
+  const id = c.req.param("id");
+  const version = c.req.query("version");
+  const patch = documentPatchSchema.safeParse(await jsonBody(c));
+  if (!patch.success) {
+    return c.json({ error: "Validation failed", errors: [{ source: id, issues: validationIssues(patch.error) }] }, 400);
+  }
+
+  const revisions = (await storedRevisions(c.env)).get(id);
+  const current = findRevision(revisions, version);
+  if (!revisions || !current) {
+    return notFound(c, id, version);
+  }
+
+  const { url, metadata, ...fields } = patch.data;
+  const updated: DeepWikiDocument = { ...current, ...fields, metadata: { ...current.metadata, ...metadata } };
+  if (url !== undefined) {
+    updated.url = url ?? undefined;
+  }
+  const created = !revisions.some((doc) => doc.metadata.version === updated.metadata.version);
+  const [document] = await putDocuments(c.env, [updated]);
+  console.log(`Admin updated document ${revisionId(current)}${created ? ` as ${revisionId(document)}` : ""}`);
+
+  return c.json({ store: getDocumentStore(c.env).name, document }, created ? 201 : 200);
+});
+
+// Deletes every revision of a document, or only `?version=`
+app.delete("/admin/documents/:id", async (c) => {
+  const id = c.req.param("id");
+  const version = c.req.query("version");
+  const revisions = (await storedRevisions(c.env)).get(id) ?? [];
+  const deleted = version === undefined ? revisions : revisions.filter((doc) => doc.metadata.version === version);
+  if (deleted.length === 0) {
+    return notFound(c, id, version);
+  }
+
+  await deleteDocuments(c.env, deleted);
+  console.log(`Admin deleted ${deleted.length} revisions of document ${id} from ${getDocumentStore(c.env).name} store`);
+
+  return c.json({ store: getDocumentStore(c.env).name, deleted: deleted.map(revisionId) });
+});
+
+/**
+ * Bulk import: one JSON document per line (application/x-ndjson), each added
+ * like PUT. Nothing is written unless every line validates.
+ */
+app.post("/admin/documents/bulk", async (c) => {
+  const documents: DeepWikiDocument[] = [];
+  const errors: ValidationErrors = [];
+  const seen = new Set<string>();
+
+  for (const [index, line] of (await c.req.text()).split(/\r?\n/).entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+    const source = `line ${index + 1}`;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch (error) {
+      errors.push({ source, issues: [{ field: "document", message: error instanceof Error ? error.message : String(error) }] });
+      continue;
+    }
+    const parsed = deepWikiDocumentSchema.safeParse(raw);
+    if (!parsed.success) {
+      errors.push({ source, issues: validationIssues(parsed.error) });
+      continue;
+    }
+    const revision = revisionId(parsed.data);
+    if (seen.has(revision)) {
+      errors.push({ source, issues: [{ field: "metadata.version", message: `duplicate revision ${revision} in upload` }] });
+    }
+    seen.add(revision);
+    documents.push(parsed.data);
+  }
+
+  if (documents.length === 0 && errors.length === 0) {
+    return c.json({ error: "No documents in request" }, 400);
+  }
+  if (errors.length > 0) {
+    return c.json({ error: "Validation failed", errors }, 400);
+  }
+
+  await putDocuments(c.env, documents);
+  console.log(`Admin imported ${documents.length} documents into ${getDocumentStore(c.env).name} store`);
+
+  return c.json({ store: getDocumentStore(c.env).name, imported: documents.map(revisionId) });
+});
+
+export { app as AdminHandler };
@@ -0,0 +1,140 @@
+// Answer generators for ask_question, citing the retrieved passages as [1], [2], ...
+
+import { analyze } from "./text-analysis";
+
+export type SourcePassage = {
+  title: string;
+  text: string;
+};
+
+export interface AnswerGenerator {
+  // Human-readable name for logs
+  readonly name: string;
+  // An answer citing the sources as [n], or null if they don't answer the question
+  answer(question: string, sources: SourcePassage[]): Promise<string | null>;
+}
+
+const WORKERS_AI_MODEL = "@cf/meta/llama-3.1-8b-instruct";
+const MAX_ANSWER_TOKENS = 512;
+
+// What the model is told to reply with when the sources don't contain the answer
+const NO_ANSWER = "NO_ANSWER";
+
+const SYSTEM_PROMPT = [
+  "You answer questions about technical documentation using only the numbered sources provided.",
+  "Cite the sources that support each statement with their numbers in square brackets, e.g. [1] or [2][3].",
+  "Do not use outside knowledge. Keep the answer concise and use Markdown where it helps.",
+  `If the sources do not contain the answer, reply with exactly ${NO_ANSWER}.`,
+].join(" ");
+
+function formatSources(sources: SourcePassage[]): string {
+  return sources.map((source, i) => `[${i + 1}] ${source.title}\n${source.text}`).join("\n\n");
+}
+
+/**
+ * Answers with a Workers AI text generation model (Llama 3.1 8B Instruct by
+ * default), prompted to stick to the sources and cite them.
+ */
+export class WorkersAIAnswerGenerator implements AnswerGenerator {
+  readonly name: string;
+
+  constructor(
+    private ai: Ai,
+    private model: typeof WORKERS_AI_MODEL = WORKERS_AI_MODEL,
+  ) {
+    this.name = `workers-ai:${model}`;
+  }
+
+  async answer(question: string, sources: SourcePassage[]): Promise<string | null> {
+    const output = await this.ai.run(this.model, {
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: `Sources:\n\n${formatSources(sources)}\n\nQuestion: ${question}` },
+      ],
+      max_tokens: MAX_ANSWER_TOKENS,
+      temperature: 0,
+    });
+    const text = output instanceof ReadableStream ? null : output.response?.trim();
+    if (!text || text.includes(NO_ANSWER)) {
+      return null;
+    }
+    return text;
+  }
+}
+
+// How many sentences the extractive generator quotes
+const MAX_EXTRACTED_SENTENCES = 3;
+
+// Sentences and list items of a passage, without headings, code or Markdown markup
+function sentences(text: string): string[] {
+  return text
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/^(?:#{1,6}\s.*|\*\*[^*]+\*\*:?)$/gm, "")
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((sentence) => sentence.replace(/^\s*(?:#{1,6}|[-*+]|\d+\.)\s+|\*\*|`/g, "").trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * Deterministic stand-in for a language model: quotes the sentences sharing
+ * the most words with the question, each cited to its source. It can't
+ * paraphrase or combine facts, but exercises the same flow offline.
+ */
+export class ExtractiveAnswerGenerator implements AnswerGenerator {
+  readonly name = "extractive";
+
+  async answer(question: string, sources: SourcePassage[]): Promise<string | null> {
+    const wanted = new Set(analyze(question));
+    const candidates = sources.flatMap((source, index) =>
+      sentences(source.text).map((sentence, position) => ({
+        sentence,
+        index,
+        position,
+        score: new Set(analyze(sentence).filter((term) => wanted.has(term))).size,
+      })),
+    );
+
+    const chosen = candidates
+      .filter((candidate) => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index || a.position - b.position)
+      .slice(0, MAX_EXTRACTED_SENTENCES)
+      .sort((a, b) => a.index - b.index || a.position - b.position);
+    if (chosen.length === 0) {
+      return null;
+    }
+    return chosen.map((candidate) => `${candidate.sentence.replace(/[.:;,]?$/, ".")} [${candidate.index + 1}]`).join(" ");
+  }
+}
+
+// Source numbers cited in an answer, in order of first citation, ignoring numbers out of range
+export function citedSources(answer: string, sourceCount: number): number[] {
+  const cited = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const number = Number(match[1]);
+    if (number >= 1 && number <= sourceCount) {
+      cited.add(number);
+    }
+  }
+  return [...cited];
+}
+
+/**
+ * Picks the answer generator from the ANSWERER var: "workers-ai" (the default
+ * when the AI binding exists) or "extractive" for the local stand-in.
+ */
+export function createAnswerGenerator(env: Env): AnswerGenerator {
+  const choice = env.ANSWERER ?? (env.AI ? "workers-ai" : "extractive");
+  switch (choice) {
+    case "workers-ai":
+      if (env.AI) {
+        return new WorkersAIAnswerGenerator(env.AI);
+      }
+      console.error("ANSWERER is workers-ai but the AI binding is missing, using extractive answers");
+      return new ExtractiveAnswerGenerator();
+    case "extractive":
+      return new ExtractiveAnswerGenerator();
+    default:
+      console.error(`Unknown ANSWERER ${choice}, using extractive answers`);
+      return new ExtractiveAnswerGenerator();
+  }
+}
@@ -0,0 +1,126 @@
+// Heading-aware chunking. Each document is split at its section headings
+// (Markdown "#" headings, or a "**Heading**" line as used by the built-in
+// corpus) into chunks that are indexed and returned by search on their own.
+//
+// Chunk IDs are "<document id>#<heading slug>", e.g. "mcp-tools#best-practices",
+// with "#intro" for text before the first heading. They only depend on the
+// headings, so they stay valid when section bodies are edited.
+
+import type { DeepWikiDocument } from "./deepwiki-data";
+
+// Sections longer than this are split at paragraph breaks into "-part-2", "-part-3", ...
+const MAX_CHUNK_CHARS = 1500;
+
+const CHUNK_SEPARATOR = "#";
+
+export type DocumentChunk = {
+  id: string;
+  document: DeepWikiDocument;
+  // Section heading, or null for the introduction
+  heading: string | null;
+  text: string;
+};
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const BOLD_HEADING = /^\*\*([^*]+)\*\*:?\s*$/;
+const CODE_FENCE = /^\s*(```|~~~)/;
+
+// Heading text to anchor: "Tool Implementation Example" -> "tool-implementation-example"
+export function slugify(heading: string): string {
+  return (
+    heading
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "section"
+  );
+}
+
+type Section = {
+  heading: string | null;
+  lines: string[];
+};
+
+function splitSections(content: string): Section[] {
+  const sections: Section[] = [{ heading: null, lines: [] }];
+  let inCode = false;
+
+  for (const line of content.split("\n")) {
+    if (CODE_FENCE.test(line)) {
+      inCode = !inCode;
+    }
+    const heading = inCode ? null : (line.match(MARKDOWN_HEADING) ?? line.match(BOLD_HEADING))?.[1]?.trim();
+    if (heading) {
+      sections.push({ heading, lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return sections.filter((section) => section.heading !== null || section.lines.join("\n").trim());
+}
+
+// Packs paragraphs into parts of at most MAX_CHUNK_CHARS (a single longer paragraph stays whole)
+function splitLongText(text: string): string[] {
+  if (text.length <= MAX_CHUNK_CHARS) {
+    return [text];
+  }
+  const parts: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+      parts.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+export function chunkDocument(doc: DeepWikiDocument): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const used = new Set<string>();
+
+  // Repeated anchors get GitHub-style suffixes: "usage", "usage-1", ... skipping
+  // any taken by another heading (e.g. a literal "Usage 1")
+  const claim = (base: string): string => {
+    let anchor = base;
+    for (let count = 1; used.has(anchor); count++) {
+      anchor = `${base}-${count}`;
+    }
+    used.add(anchor);
+    return anchor;
+  };
+
+  for (const section of splitSections(doc.content)) {
+    const anchor = claim(section.heading === null ? "intro" : slugify(section.heading));
+
+    splitLongText(section.lines.join("\n").trim()).forEach((text, part) => {
+      chunks.push({
+        id: `${doc.id}${CHUNK_SEPARATOR}${part === 0 ? anchor : claim(`${anchor}-part-${part + 1}`)}`,
+        document: doc,
+        heading: section.heading,
+        text,
+      });
+    });
+  }
+
+  // Empty documents still get a chunk so they stay searchable by title and tags
+  if (chunks.length === 0) {
+    chunks.push({ id: `${doc.id}${CHUNK_SEPARATOR}intro`, document: doc, heading: null, text: "" });
+  }
+
+  return chunks;
+}
+
+// Orders equally ranked chunks by ID, so result order (and pagination) is deterministic
+export function compareChunkIds(a: DocumentChunk, b: DocumentChunk): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// "MCP Tools › Best Practices"
+export function chunkTitle(chunk: DocumentChunk): string {
+  return chunk.heading ? `${chunk.document.title} › ${chunk.heading}` : chunk.document.title;
+}
@@ -1,6 +1,14 @@
 // DeepWiki documentation data and search functionality
 // This implements the core DeepWiki MCP server functionality
 
+import { type DocumentChunk, chunkDocument, compareChunkIds } from "./chunking";
+import type { DocumentStore } from "./document-store";
+import type { Embedder } from "./embeddings";
+import { type ParsedQuery, parseQuery } from "./query-parser";
+import { InvertedIndex } from "./search-index";
+import { SynonymDictionary } from "./synonyms";
+import { VectorIndex } from "./vector-index";
+
 export interface DeepWikiDocument {
   id: string;
   title: string;
@@ -10,23 +18,60 @@ export interface DeepWikiDocument {
     version: string;
     category: string;
     tags: string[];
+    // Who may read the document: "public" (the default), "org:<org>" or "team:<org>/<team-slug>"; see access.ts
+    access?: string;
+    // When this revision was written to the store (ISO 8601); unknown for the built-in corpus
+    updatedAt?: string;
   };
 }
 
-export class DeepWikiSearch {
-  private documents: DeepWikiDocument[] = [];
+// A specific revision of a document is addressed as "<id>@<version>", e.g. "mcp-tools@2024-11-05"
+export const REVISION_SEPARATOR = "@";
+
+// Version name for a document's newest revision, e.g. "mcp-tools@latest"
+export const LATEST_VERSION = "latest";
+
+export function revisionId(doc: DeepWikiDocument): string {
+  return `${doc.id}${REVISION_SEPARATOR}${doc.metadata.version}`;
+}
+
+// Orders versions oldest first; dates ("2024-11-25") and dotted numbers ("1.10" after "1.9") compare as expected
+export function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, "en", { numeric: true });
+}
 
-  constructor() {
-    this.initializeDocuments();
+/**
+ * Groups stored revisions by document ID, oldest version first. A version
+ * stored under both a legacy "<id>" key and an "<id>@<version>" key counts once.
+ */
+export function groupRevisions(documents: DeepWikiDocument[]): Map<string, DeepWikiDocument[]> {
+  const revisions = new Map<string, DeepWikiDocument[]>();
+  const unique = new Map(documents.map(doc => [revisionId(doc), doc]));
+  for (const doc of unique.values()) {
+    const list = revisions.get(doc.id);
+    if (list) {
+      list.push(doc);
+    } else {
+      revisions.set(doc.id, [doc]);
+    }
+  }
+  for (const list of revisions.values()) {
+    list.sort((a, b) => compareVersions(a.metadata.version, b.metadata.version));
   }
+  return revisions;
+}
 
-  private initializeDocuments() {
-    // Core MCP Protocol Documentation
-    this.documents = [
-      {
-        id: "mcp-overview",
-        title: "Model Context Protocol (MCP) Overview",
-        content: `The Model Context Protocol (MCP) is an open protocol that enables secure connections between host applications (like Claude Desktop, IDEs, or other AI tools) and external data sources and tools. MCP allows AI assistants to securely access real-time information and perform actions on behalf of users.
+// Canonical URL for a document, falling back to its DeepWiki page
+export function documentUrl(doc: DeepWikiDocument): string {
+  return doc.url || `https://deepwiki.mcpcentral.io/docs/${doc.id}`;
+}
+
+// Core MCP Protocol Documentation, served by the in-memory document store
+export const seedDocuments: DeepWikiDocument[] = [
+  {
+    id: "mcp-overview",
+    title: "Model Context Protocol (MCP) Overview",
+    content: `The Model Context Protocol (MCP) is an open protocol that enables secure connections between host applications (like Claude Desktop, IDEs, or other AI tools) and external data sources and tools. MCP allows AI assistants to securely access real-time information and perform actions on behalf of users.
 
 Key Features:
 - Secure, controlled access to external resources
@@ -46,17 +91,17 @@ The protocol enables AI assistants to:
 - Access real-time information
 - Interact with APIs and databases
 - Provide dynamic prompts and templates`,
-        url: "https://modelcontextprotocol.io/introduction",
-        metadata: {
-          version: "2024-11-25",
-          category: "core",
-          tags: ["overview", "introduction", "protocol", "architecture"]
-        }
-      },
-      {
-        id: "mcp-architecture",
-        title: "MCP Architecture and Components",
-        content: `MCP follows a client-server architecture where:
+    url: "https://modelcontextprotocol.io/introduction",
+    metadata: {
+      version: "2024-11-25",
+      category: "core",
+      tags: ["overview", "introduction", "protocol", "architecture"]
+    }
+  },
+  {
+    id: "mcp-architecture",
+    title: "MCP Architecture and Components",
+    content: `MCP follows a client-server architecture where:
 
 **Hosts and Clients**
 - Hosts are applications like Claude Desktop that want to access external capabilities
@@ -85,17 +130,17 @@ The protocol enables AI assistants to:
 - Request/response and notification patterns
 - Standardized error handling
 - Capability negotiation during initialization`,
-        url: "https://modelcontextprotocol.io/docs/concepts/architecture",
-        metadata: {
-          version: "2024-11-25",
-          category: "architecture",
-          tags: ["architecture", "components", "security", "transport"]
-        }
-      },
-      {
-        id: "mcp-tools",
-        title: "MCP Tools",
-        content: `Tools in MCP allow AI assistants to perform actions and execute functions. Tools are exposed by servers and can be called by clients with specific parameters.
+    url: "https://modelcontextprotocol.io/docs/concepts/architecture",
+    metadata: {
+      version: "2024-11-25",
+      category: "architecture",
+      tags: ["architecture", "components", "security", "transport"]
+    }
+  },
+  {
+    id: "mcp-tools",
+    title: "MCP Tools",
+    content: `Tools in MCP allow AI assistants to perform actions and execute functions. Tools are exposed by servers and can be called by clients with specific parameters.
 
 **Tool Definition**
 Tools are defined with:
@@ -136,17 +181,17 @@ server.tool(
 - Handle errors gracefully and return meaningful error messages
 - Implement proper security checks and input sanitization
 - Return structured, parseable results`,
-        url: "https://modelcontextprotocol.io/docs/concepts/tools",
-        metadata: {
-          version: "2024-11-25",
-          category: "tools",
-          tags: ["tools", "functions", "implementation", "examples"]
-        }
-      },
-      {
-        id: "mcp-resources",
-        title: "MCP Resources",
-        content: `Resources in MCP represent data sources that can be read by AI assistants. Unlike tools which perform actions, resources provide access to information.
+    url: "https://modelcontextprotocol.io/docs/concepts/tools",
+    metadata: {
+      version: "2024-11-25",
+      category: "tools",
+      tags: ["tools", "functions", "implementation", "examples"]
+    }
+  },
+  {
+    id: "mcp-resources",
+    title: "MCP Resources",
+    content: `Resources in MCP represent data sources that can be read by AI assistants. Unlike tools which perform actions, resources provide access to information.
 
 **Resource Types**
 - Files: Local or remote files
@@ -195,17 +240,17 @@ server.resource(
 - Documentation and help content
 - Database schemas and data
 - API responses and cached data`,
-        url: "https://modelcontextprotocol.io/docs/concepts/resources",
-        metadata: {
-          version: "2024-11-25",
-          category: "resources",
-          tags: ["resources", "data", "files", "apis"]
-        }
-      },
-      {
-        id: "mcp-prompts",
-        title: "MCP Prompts",
-        content: `Prompts in MCP allow servers to provide reusable prompt templates that can be used by AI assistants. This enables sharing of effective prompts and prompt engineering best practices.
+    url: "https://modelcontextprotocol.io/docs/concepts/resources",
+    metadata: {
+      version: "2024-11-25",
+      category: "resources",
+      tags: ["resources", "data", "files", "apis"]
+    }
+  },
+  {
+    id: "mcp-prompts",
+    title: "MCP Prompts",
+    content: `Prompts in MCP allow servers to provide reusable prompt templates that can be used by AI assistants. This enables sharing of effective prompts and prompt engineering best practices.
 
 **Prompt Structure**
 Prompts consist of:
@@ -258,17 +303,17 @@ server.prompt(
 - Consistent AI behavior across applications
 - Easy sharing of effective prompts
 - Parameterized prompt generation`,
-        url: "https://modelcontextprotocol.io/docs/concepts/prompts",
-        metadata: {
-          version: "2024-11-25",
-          category: "prompts",
-          tags: ["prompts", "templates", "ai", "examples"]
-        }
-      },
-      {
-        id: "mcp-server-sdk",
-        title: "MCP Server SDK",
-        content: `The MCP Server SDK provides libraries and tools for building MCP servers in various programming languages.
+    url: "https://modelcontextprotocol.io/docs/concepts/prompts",
+    metadata: {
+      version: "2024-11-25",
+      category: "prompts",
+      tags: ["prompts", "templates", "ai", "examples"]
+    }
+  },
+  {
+    id: "mcp-server-sdk",
+    title: "MCP Server SDK",
+    content: `The MCP Server SDK provides libraries and tools for building MCP servers in various programming languages.
 
 **Supported Languages**
 - TypeScript/JavaScript: @modelcontextprotocol/sdk
@@ -327,17 +372,17 @@ if __name__ == "__main__":
 - Automatic protocol compliance
 - Error handling and validation
 - Development tools and debugging`,
-        url: "https://modelcontextprotocol.io/docs/tools/sdks",
-        metadata: {
-          version: "2024-11-25",
-          category: "sdk",
-          tags: ["sdk", "development", "typescript", "python"]
-        }
-      },
-      {
-        id: "mcp-client-integration",
-        title: "MCP Client Integration",
-        content: `Integrating MCP clients allows applications to connect to and use MCP servers.
+    url: "https://modelcontextprotocol.io/docs/tools/sdks",
+    metadata: {
+      version: "2024-11-25",
+      category: "sdk",
+      tags: ["sdk", "development", "typescript", "python"]
+    }
+  },
+  {
+    id: "mcp-client-integration",
+    title: "MCP Client Integration",
+    content: `Integrating MCP clients allows applications to connect to and use MCP servers.
 
 **Client SDK**
 The client SDK provides tools for connecting to MCP servers:
@@ -395,17 +440,17 @@ try {
 - Use appropriate transport for your use case
 - Validate server capabilities before use
 - Implement retry logic for network transports`,
-        url: "https://modelcontextprotocol.io/docs/tools/clients",
-        metadata: {
-          version: "2024-11-25",
-          category: "client",
-          tags: ["client", "integration", "transport", "connection"]
-        }
-      },
-      {
-        id: "mcp-security",
-        title: "MCP Security Model",
-        content: `MCP implements a comprehensive security model to ensure safe interaction between hosts, clients, and servers.
+    url: "https://modelcontextprotocol.io/docs/tools/clients",
+    metadata: {
+      version: "2024-11-25",
+      category: "client",
+      tags: ["client", "integration", "transport", "connection"]
+    }
+  },
+  {
+    id: "mcp-security",
+    title: "MCP Security Model",
+    content: `MCP implements a comprehensive security model to ensure safe interaction between hosts, clients, and servers.
 
 **Isolation**
 - Servers run in separate processes
@@ -454,17 +499,17 @@ MCP protects against:
 - Environment variable protection
 - Credential management
 - Access control lists`,
-        url: "https://modelcontextprotocol.io/docs/concepts/security",
-        metadata: {
-          version: "2024-11-25",
-          category: "security",
-          tags: ["security", "authentication", "authorization", "isolation"]
-        }
-      },
-      {
-        id: "mcp-examples",
-        title: "MCP Implementation Examples",
-        content: `Practical examples of MCP server implementations for common use cases.
+    url: "https://modelcontextprotocol.io/docs/concepts/security",
+    metadata: {
+      version: "2024-11-25",
+      category: "security",
+      tags: ["security", "authentication", "authorization", "isolation"]
+    }
+  },
+  {
+    id: "mcp-examples",
+    title: "MCP Implementation Examples",
+    content: `Practical examples of MCP server implementations for common use cases.
 
 **File System Server**
 \`\`\`typescript
@@ -558,17 +603,17 @@ server.resource(
   }
 );
 \`\`\``,
-        url: "https://modelcontextprotocol.io/docs/examples",
-        metadata: {
-          version: "2024-11-25",
-          category: "examples",
-          tags: ["examples", "implementation", "filesystem", "database", "api"]
-        }
-      },
-      {
-        id: "mcp-deployment",
-        title: "MCP Server Deployment",
-        content: `Guidelines for deploying MCP servers in production environments.
+    url: "https://modelcontextprotocol.io/docs/examples",
+    metadata: {
+      version: "2024-11-25",
+      category: "examples",
+      tags: ["examples", "implementation", "filesystem", "database", "api"]
+    }
+  },
+  {
+    id: "mcp-deployment",
+    title: "MCP Server Deployment",
+    content: `Guidelines for deploying MCP servers in production environments.
 
 **Local Deployment**
 For stdio-based servers:
@@ -627,67 +672,394 @@ LOG_LEVEL=info
 - Secure credential management
 - Regular security updates
 - Network security and firewalls`,
-        url: "https://modelcontextprotocol.io/docs/deployment",
-        metadata: {
-          version: "2024-11-25",
-          category: "deployment",
-          tags: ["deployment", "production", "docker", "scaling", "monitoring"]
+    url: "https://modelcontextprotocol.io/docs/deployment",
+    metadata: {
+      version: "2024-11-25",
+      category: "deployment",
+      tags: ["deployment", "production", "docker", "scaling", "monitoring"]
+    }
+  }
+];
+
+// How long a loaded corpus is reused before the store is read again
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// How many semantic matches are fused with the keyword results
+const SEMANTIC_CANDIDATES = 20;
+
+// Reciprocal rank fusion constant; larger values flatten the gap between top ranks
+const RRF_K = 60;
+
+// How many passages a search returns unless asked for more
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+// Searches with fewer matches than this get a "did you mean" suggestion when one exists
+const FEW_RESULTS = 3;
+
+// Sources of on-demand documents (e.g. GitHub repositories) kept at once; the least recently used is dropped
+const MAX_INDEXED_SOURCES = 20;
+
+// Indexes other than the default one (see indexFor), kept for the most recently used filters
+const MAX_FILTERED_INDEXES = 8;
+
+/**
+ * Merges rankings by reciprocal rank fusion: each chunk scores
+ * sum(1 / (RRF_K + rank)) over the rankings it appears in. Ranks are
+ * comparable where BM25 scores and cosine similarities aren't.
+ */
+function fuseRankings(rankings: DocumentChunk[][]): DocumentChunk[] {
+  const scores = new Map<DocumentChunk, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((chunk, rank) => {
+      scores.set(chunk, (scores.get(chunk) ?? 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+  return [...scores].sort((a, b) => b[1] - a[1] || compareChunkIds(a[0], b[0])).map(([chunk]) => chunk);
+}
+
+export type FacetCount = {
+  value: string;
+  count: number;
+};
+
+// Matching documents per category, tag and version, most common first
+export type SearchFacets = {
+  category: FacetCount[];
+  tags: FacetCount[];
+  version: FacetCount[];
+};
+
+export function countFacets(documents: DeepWikiDocument[]): SearchFacets {
+  const count = (values: string[]): FacetCount[] => {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || (a.value < b.value ? -1 : a.value > b.value ? 1 : 0));
+  };
+  return {
+    category: count(documents.map(doc => doc.metadata.category)),
+    // A document counts once per distinct tag
+    tags: count(documents.flatMap(doc => [...new Set(doc.metadata.tags)])),
+    version: count(documents.map(doc => doc.metadata.version))
+  };
+}
+
+// A version: filter may name an earlier revision
+function searchesRevisions(query: ParsedQuery): boolean {
+  return query.filters.some(filter => filter.field === 'version' && !filter.negated);
+}
+
+export type PassageSearchOptions = {
+  // Only passages of documents accepted by the filter
+  filter?: (doc: DeepWikiDocument) => boolean;
+  // At most this many passages from the same document (default 1)
+  perDocument?: number;
+  // Page of the ranking to return (default the first 10)
+  offset?: number;
+  limit?: number;
+};
+
+export type PassageSearchResult = {
+  passages: DocumentChunk[];
+  // Matching passages across all pages
+  total: number;
+  // Index terms searched for, including typo corrections and synonyms (for highlighting)
+  terms: string[];
+  // The query with misspelled words corrected, when there were few matches
+  suggestion?: string;
+  // Over the documents of all matching passages, not just this page
+  facets: SearchFacets;
+};
+
+export class DeepWikiSearch {
+  // The newest revision of each document
+  private documents: DeepWikiDocument[] = [];
+  private documentsById = new Map<string, DeepWikiDocument>();
+  // Every revision of each document, oldest first
+  private revisionsById = new Map<string, DeepWikiDocument[]>();
+  private chunks: DocumentChunk[] = [];
+  // Chunks of earlier revisions, with the version in their IDs ("mcp-tools@2024-11-05#usage")
+  private revisionChunks: DocumentChunk[] = [];
+  private chunksById = new Map<string, DocumentChunk>();
+  private index = new InvertedIndex([]);
+  // Keyed by which revisions they cover and the revisions the filter hides (see indexFor)
+  private filteredIndexes = new Map<string, InvertedIndex>();
+  private synonyms = new SynonymDictionary();
+  // Every revision held by the store
+  private storeDocuments: DeepWikiDocument[] = [];
+  // Documents indexed on demand by ID prefix (e.g. one GitHub repository), least recently used
+  // first, kept across store reloads
+  private indexedSources = new Map<string, { documents: DeepWikiDocument[]; indexedAt: number }>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private vectors: VectorIndex | null;
+  // Set when the documents change; passages are embedded on the next search
+  private vectorsStale = true;
+  private embedding: Promise<void> | null = null;
+
+  constructor(private store: DocumentStore, embedder: Embedder | null = null, private cacheTtlMs = DEFAULT_CACHE_TTL_MS) {
+    this.vectors =
+      embedder &&
+      new VectorIndex(embedder, {
+        load: () => store.loadEmbeddings(embedder.name),
+        save: embeddings => store.saveEmbeddings(embedder.name, embeddings)
+      });
+  }
+
+  /**
+   * Loads the corpus from the store on first use, and again once the cached
+   * copy is older than the TTL. Concurrent callers share a single load; if a
+   * refresh fails the previous copy keeps being served.
+   */
+  async load(): Promise<void> {
+    if (this.loadedAt && Date.now() - this.loadedAt < this.cacheTtlMs) {
+      return;
+    }
+
+    this.loading ??= Promise.all([this.store.loadDocuments(), this.store.loadSynonyms()])
+      .then(([documents, synonyms]) => {
+        this.storeDocuments = documents;
+        this.synonyms = new SynonymDictionary(synonyms ?? undefined);
+        this.rebuild();
+        this.loadedAt = Date.now();
+        console.log(`DeepWiki loaded ${documents.length} document revisions from ${this.store.name} store`);
+      })
+      .catch(error => {
+        if (!this.loadedAt) {
+          throw error;
+        }
+        console.error(`DeepWiki failed to refresh documents from ${this.store.name} store, serving cached copy:`, error);
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+
+    await this.loading;
+  }
+
+  // Forces the next load() to read the store again
+  invalidate() {
+    this.loadedAt = 0;
+  }
+
+  /**
+   * Replaces every on-demand document whose ID starts with `prefix`, e.g. all
+   * pages of one GitHub repository. These live alongside the store's documents
+   * for the life of the isolate, up to MAX_INDEXED_SOURCES prefixes.
+   */
+  replaceIndexedDocuments(prefix: string, documents: DeepWikiDocument[]) {
+    this.indexedSources.delete(prefix);
+    this.indexedSources.set(prefix, { documents, indexedAt: Date.now() });
+    while (this.indexedSources.size > MAX_INDEXED_SOURCES) {
+      const [oldest] = this.indexedSources.keys();
+      this.indexedSources.delete(oldest);
+      console.log(`DeepWiki dropped on-demand documents for ${oldest}`);
+    }
+    this.rebuild();
+  }
+
+  // When the documents under `prefix` were last replaced, or null if they aren't indexed; counts as a use
+  indexedAt(prefix: string): number | null {
+    const source = this.indexedSources.get(prefix);
+    if (!source) {
+      return null;
+    }
+    this.indexedSources.delete(prefix);
+    this.indexedSources.set(prefix, source);
+    return source.indexedAt;
+  }
+
+  // The newest revision of each document is searched, earlier ones only by version: filters
+  private rebuild() {
+    const revisions = groupRevisions(this.storeDocuments);
+    for (const { documents } of this.indexedSources.values()) {
+      for (const doc of documents) {
+        if (!revisions.has(doc.id)) {
+          revisions.set(doc.id, [doc]);
         }
       }
-    ];
+    }
+    this.revisionsById = revisions;
+    this.documents = [...revisions.values()].map(list => list[list.length - 1]);
+    this.documentsById = new Map(this.documents.map(doc => [doc.id, doc]));
+    this.chunks = this.documents.flatMap(chunkDocument);
+    this.revisionChunks = [...revisions.values()]
+      .flatMap(list => list.slice(0, -1))
+      .flatMap(doc => chunkDocument(doc).map(chunk => ({ ...chunk, id: revisionId(doc) + chunk.id.slice(doc.id.length) })));
+    this.chunksById = new Map([...this.chunks, ...this.revisionChunks].map(chunk => [chunk.id, chunk]));
+    this.index = new InvertedIndex(this.chunks);
+    this.filteredIndexes.clear();
+    this.vectorsStale = true;
   }
 
-  search(query: string, version?: string): DeepWikiDocument[] {
-    const searchTerms = query.toLowerCase().split(/\s+/);
-    
-    let results = this.documents.filter(doc => {
-      // Version filtering
-      if (version && doc.metadata.version !== version) {
-        return false;
+  /**
+   * The index to search for documents accepted by the filter, over the newest
+   * revisions or, for version: filters, every revision. Only the newest
+   * revisions with no filter hiding any of them use the default index; the
+   * others cover the accepted documents only, so term statistics, typo
+   * corrections and suggestions never draw on words from documents the caller
+   * can't read.
+   */
+  private indexFor(filter?: (doc: DeepWikiDocument) => boolean, allRevisions = false): InvertedIndex {
+    const documents = allRevisions ? [...this.revisionsById.values()].flat() : this.documents;
+    const hidden = filter ? documents.filter(doc => !filter(doc)).map(revisionId) : [];
+    if (!allRevisions && hidden.length === 0) {
+      return this.index;
+    }
+    const key = `${allRevisions ? 'all' : 'latest'}\n${hidden.join('\n')}`;
+    let index = this.filteredIndexes.get(key);
+    if (index) {
+      this.filteredIndexes.delete(key);
+    } else {
+      const hiddenRevisions = new Set(hidden);
+      const chunks = allRevisions ? [...this.chunks, ...this.revisionChunks] : this.chunks;
+      index = new InvertedIndex(chunks.filter(chunk => !hiddenRevisions.has(revisionId(chunk.document))));
+      if (this.filteredIndexes.size >= MAX_FILTERED_INDEXES) {
+        this.filteredIndexes.delete(this.filteredIndexes.keys().next().value!);
       }
-      
-      // Text search in title, content, and tags
-      const searchText = `${doc.title} ${doc.content} ${doc.metadata.tags.join(' ')}`.toLowerCase();
-      
-      return searchTerms.some(term => 
-        searchText.includes(term) ||
-        doc.metadata.category.includes(term)
-      );
-    });
+    }
+    this.filteredIndexes.set(key, index);
+    return index;
+  }
 
-    // Sort by relevance (simple scoring based on term matches)
-    results.sort((a, b) => {
-      const scoreA = this.calculateRelevanceScore(a, searchTerms);
-      const scoreB = this.calculateRelevanceScore(b, searchTerms);
-      return scoreB - scoreA;
+  // Embeds the current chunks if they changed since the last search; concurrent searches share the work
+  private async embedDocuments(vectors: VectorIndex): Promise<void> {
+    if (!this.vectorsStale) {
+      return;
+    }
+    this.embedding ??= (async () => {
+      this.vectorsStale = false;
+      try {
+        await vectors.index(this.chunks);
+      } catch (error) {
+        this.vectorsStale = true;
+        throw error;
+      }
+    })().finally(() => {
+      this.embedding = null;
     });
+    await this.embedding;
+  }
+
+  /**
+   * Best-matching passages (document chunks) for the query. Keyword (BM25)
+   * results are fused with semantic matches when an embedder is configured;
+   * semantic matches honor the query's exclusions and filters but not its
+   * required words. Words missing from the index also match close
+   * misspellings of indexed words, and words with an entry in the synonym
+   * dictionary also match their synonyms. See query-parser.ts for the query
+   * syntax. Documents rejected by the filter play no part in the search, not
+   * even in typo corrections or the suggestion.
+   *
+   * Only the newest revision of each document is searched, unless the query
+   * has a version: filter; then earlier revisions are searched too, and their
+   * passages have the version in their IDs ("mcp-tools@2024-11-05#usage").
+   *
+   * Ties are broken by chunk ID, so for an unchanged corpus consecutive pages
+   * neither repeat nor skip passages.
+   */
+  async searchPassages(query: string, options: PassageSearchOptions = {}): Promise<PassageSearchResult> {
+    const { filter, perDocument = 1, offset = 0, limit = DEFAULT_SEARCH_LIMIT } = options;
+    const parsed = parseQuery(query);
+    const index = this.indexFor(filter, searchesRevisions(parsed));
+    const expanded = this.synonyms.expand(index.expand(parsed));
+    const keyword = index.search(expanded.query, expanded.weights).map(result => result.chunk);
+    const text = parsed.groups.flat().map(clause => clause.text).join(' ');
+
+    let semantic: DocumentChunk[] = [];
+    if (this.vectors && text) {
+      try {
+        await this.embedDocuments(this.vectors);
+        semantic = (await this.vectors.search(text, SEMANTIC_CANDIDATES))
+          .map(match => match.chunk)
+          .filter(chunk => index.accepts(chunk, parsed));
+      } catch (error) {
+        // Keyword results are still useful if the embedding model is unavailable
+        console.error(`DeepWiki semantic search failed, using keyword results only:`, error);
+      }
+    }
+
+    const perDocumentCounts = new Map<DeepWikiDocument, number>();
+    const passages: DocumentChunk[] = [];
+    for (const chunk of fuseRankings([keyword, semantic])) {
+      const count = perDocumentCounts.get(chunk.document) ?? 0;
+      if (count >= perDocument || (filter && !filter(chunk.document))) {
+        continue;
+      }
+      perDocumentCounts.set(chunk.document, count + 1);
+      passages.push(chunk);
+    }
+    const suggestion = passages.length < FEW_RESULTS ? index.suggest(query) : null;
+    return {
+      passages: passages.slice(offset, offset + limit),
+      total: passages.length,
+      terms: [...new Set(expanded.query.groups.flat().flatMap(clause => clause.terms))],
+      facets: countFacets([...perDocumentCounts.keys()]),
+      ...(suggestion && { suggestion })
+    };
+  }
+
+  /**
+   * Share (0 to 1) of the query's words and phrases found in at least one of
+   * the passages, counting typo corrections and synonyms. A rough measure of
+   * how well the passages cover the query, since semantic matches need not
+   * contain any of its words. Pass the filter the passages were searched with.
+   */
+  coverage(query: string, passages: DocumentChunk[], filter?: (doc: DeepWikiDocument) => boolean): number {
+    const parsed = parseQuery(query);
+    const index = this.indexFor(filter, searchesRevisions(parsed));
+    const { groups } = this.synonyms.expand(index.expand(parsed)).query;
+    if (groups.length === 0) {
+      return 0;
+    }
+    const covered = groups.filter(group => passages.some(chunk => index.matchesAny(chunk, group)));
+    return covered.length / groups.length;
+  }
 
-    return results.slice(0, 10); // Return top 10 results
+  /**
+   * Top 10 documents for the query, ranked by their best passage.
+   */
+  async search(query: string, filter?: (doc: DeepWikiDocument) => boolean): Promise<DeepWikiDocument[]> {
+    return (await this.searchPassages(query, { filter })).passages.map(chunk => chunk.document);
   }
 
+  // The newest revision of a document
   getDocument(id: string): DeepWikiDocument | null {
-    return this.documents.find(doc => doc.id === id) || null;
-  }
-
-  private calculateRelevanceScore(doc: DeepWikiDocument, searchTerms: string[]): number {
-    let score = 0;
-    const title = doc.title.toLowerCase();
-    const content = doc.content.toLowerCase();
-    const tags = doc.metadata.tags.join(' ').toLowerCase();
-    
-    searchTerms.forEach(term => {
-      // Title matches are worth more
-      if (title.includes(term)) score += 10;
-      
-      // Tag matches are worth more than content
-      if (tags.includes(term)) score += 5;
-      
-      // Content matches
-      const contentMatches = (content.match(new RegExp(term, 'g')) || []).length;
-      score += contentMatches;
-    });
-    
-    return score;
+    return this.documentsById.get(id) ?? null;
+  }
+
+  /**
+   * A document by ID (its newest revision), or a specific revision by
+   * "<id>@<version>"; "<id>@latest" is the newest revision too.
+   */
+  resolveDocument(reference: string): DeepWikiDocument | null {
+    const doc = this.documentsById.get(reference);
+    if (doc) {
+      return doc;
+    }
+    const separator = reference.lastIndexOf(REVISION_SEPARATOR);
+    if (separator <= 0) {
+      return null;
+    }
+    const id = reference.slice(0, separator);
+    const version = reference.slice(separator + 1);
+    if (version === LATEST_VERSION) {
+      return this.getDocument(id);
+    }
+    return this.revisionsById.get(id)?.find(revision => revision.metadata.version === version) ?? null;
+  }
+
+  // Every revision of a document, oldest first
+  getRevisions(id: string): DeepWikiDocument[] {
+    return [...(this.revisionsById.get(id) ?? [])];
+  }
+
+  // A chunk by its ID, e.g. "mcp-tools#best-practices", or "mcp-tools@2024-11-05#best-practices" for an earlier revision
+  getChunk(id: string): DocumentChunk | null {
+    return this.chunksById.get(id) ?? null;
   }
 
   getAllDocuments(): DeepWikiDocument[] {
@@ -0,0 +1,125 @@
+// Line diffs between document revisions, in unified diff format (as produced
+// by `diff -u` and `git diff`), for the diff_versions tool.
+
+export type UnifiedDiff = {
+  // Empty when the texts are identical
+  diff: string;
+  additions: number;
+  deletions: number;
+};
+
+type DiffOptions = {
+  fromFile: string;
+  toFile: string;
+  // Unchanged lines shown around each change
+  context?: number;
+};
+
+type Edit = { kind: " " | "-" | "+"; line: string; oldLine: number; newLine: number };
+
+// Largest LCS table diffed, in cells (lines changed in the old text × in the new); about 16 MB
+const MAX_DIFF_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+}
+
+/**
+ * The edit script turning `a` into `b` via their longest common subsequence.
+ * The common prefix and suffix are skipped before building the table, since
+ * revisions usually differ in a few places only.
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    throw new Error(`Revisions are too different to diff (${n} and ${m} changed lines)`);
+  }
+
+  // lcs[i * (m + 1) + j]: length of the LCS of the changed lines of a from i and of b from j
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[prefix + i] === b[prefix + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const edits: Edit[] = [];
+  for (let k = 0; k < prefix; k++) {
+    edits.push({ kind: " ", line: a[k], oldLine: k, newLine: k });
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[prefix + i] === b[prefix + j]) {
+      edits.push({ kind: " ", line: a[prefix + i], oldLine: prefix + i, newLine: prefix + j });
+      i++;
+      j++;
+    } else if (j === m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      // Deletions before additions, as diff -u prints them
+      edits.push({ kind: "-", line: a[prefix + i], oldLine: prefix + i, newLine: prefix + j });
+      i++;
+    } else {
+      edits.push({ kind: "+", line: b[prefix + j], oldLine: prefix + i, newLine: prefix + j });
+      j++;
+    }
+  }
+  for (let k = 0; k < suffix; k++) {
+    edits.push({ kind: " ", line: a[prefix + n + k], oldLine: prefix + n + k, newLine: prefix + m + k });
+  }
+  return edits;
+}
+
+// A hunk range: 1-based start and length, where an empty range starts at the line before it
+function hunkRange(start: number, length: number): string {
+  return `${length === 0 ? start : start + 1},${length}`;
+}
+
+/**
+ * A unified diff of two texts, line by line, with `context` unchanged lines
+ * around each change and nearby changes merged into one hunk.
+ */
+export function unifiedDiff(oldText: string, newText: string, { fromFile, toFile, context = 3 }: DiffOptions): UnifiedDiff {
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+  const changes = edits.flatMap((edit, index) => (edit.kind === " " ? [] : [index]));
+  if (changes.length === 0) {
+    return { diff: "", additions: 0, deletions: 0 };
+  }
+
+  const lines = [`--- ${fromFile}`, `+++ ${toFile}`];
+  let c = 0;
+  while (c < changes.length) {
+    // Extend the hunk while the next change is within two contexts of the last one
+    let last = c;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= 2 * context + 1) {
+      last++;
+    }
+    const start = Math.max(0, changes[c] - context);
+    const end = Math.min(edits.length, changes[last] + context + 1);
+    const hunk = edits.slice(start, end);
+
+    const oldLength = hunk.filter((edit) => edit.kind !== "+").length;
+    const newLength = hunk.filter((edit) => edit.kind !== "-").length;
+    lines.push(`@@ -${hunkRange(hunk[0].oldLine, oldLength)} +${hunkRange(hunk[0].newLine, newLength)} @@`);
+    lines.push(...hunk.map((edit) => `${edit.kind}${edit.line}`));
+    c = last + 1;
+  }
+
+  return {
+    diff: `${lines.join("\n")}\n`,
+    additions: edits.filter((edit) => edit.kind === "+").length,
+    deletions: edits.filter((edit) => edit.kind === "-").length,
+  };
+}
@@ -0,0 +1,423 @@
+// Document stores behind DeepWikiSearch. The corpus can live in code (the
+// in-memory seed), a KV namespace or an R2 bucket, so docs can be updated
+// without redeploying the Worker.
+
+import { z } from "zod";
+import { documentAccessSchema } from "./access";
+import { type DeepWikiDocument, DeepWikiSearch, revisionId, seedDocuments } from "./deepwiki-data";
+import { createEmbedder } from "./embeddings";
+import { DEFAULT_SYNONYMS, type SynonymEntries, synonymDictionarySchema } from "./synonyms";
+import type { SavedEmbeddings } from "./vector-index";
+
+export const deepWikiDocumentSchema = z.object({
+  // "@" and "#" separate the version and section in "<id>@<version>#<section>" references
+  id: z
+    .string()
+    .min(1)
+    .regex(/^[^@#]*$/, "must not contain @ or #"),
+  title: z.string().min(1),
+  content: z.string(),
+  url: z.string().url().optional(),
+  metadata: z.object({
+    // "@" separates the version in "<id>@<version>" references
+    version: z
+      .string()
+      .min(1)
+      .regex(/^[^@]*$/, "must not contain @"),
+    category: z.string().min(1),
+    tags: z.array(z.string()),
+    access: documentAccessSchema.optional(),
+    updatedAt: z.string().datetime().optional(),
+  }),
+});
+
+// Records when a revision is written; every write through the store goes through here
+export function withWriteTime(documents: DeepWikiDocument[], now = new Date()): DeepWikiDocument[] {
+  return documents.map((doc) => ({ ...doc, metadata: { ...doc.metadata, updatedAt: now.toISOString() } }));
+}
+
+// Stores hold revisions: one entry per document ID and version, see revisionId()
+export interface DocumentStore {
+  // Human-readable name for logs
+  readonly name: string;
+  // Every revision of every document
+  loadDocuments(): Promise<DeepWikiDocument[]>;
+  // Synonym dictionary (see synonyms.ts), or null to use the built-in one
+  loadSynonyms(): Promise<SynonymEntries | null>;
+  // Adds revisions, replacing any with the same ID and version
+  putDocuments(documents: DeepWikiDocument[]): Promise<void>;
+  // Removes revisions by ID and version
+  deleteDocuments(documents: DeepWikiDocument[]): Promise<void>;
+  // Passage embeddings saved for an embedder (see vector-index.ts), or null if there are none
+  loadEmbeddings(embedder: string): Promise<SavedEmbeddings | null>;
+  // Replaces the embeddings saved for an embedder
+  saveEmbeddings(embedder: string, embeddings: SavedEmbeddings): Promise<void>;
+}
+
+const savedEmbeddingsSchema = z.record(z.string());
+
+// Keys per KV bulk read, the most one request may ask for
+const KV_BULK_GET_LIMIT = 100;
+
+// R2 objects read at once when the bundle is missing or out of date
+const R2_READ_CONCURRENCY = 6;
+
+// Copy of every revision object in an R2 store with the ETag it was read at, see R2DocumentStore
+type DocumentBundle = Record<string, { etag: string; document: unknown }>;
+
+// Stored documents are written outside this codebase, so skip (and log) anything malformed
+function parseStoredDocument(key: string, raw: unknown): DeepWikiDocument | null {
+  const parsed = deepWikiDocumentSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error(`Skipping invalid document ${key}:`, parsed.error.issues);
+    return null;
+  }
+  return parsed.data;
+}
+
+// Malformed embeddings are embedded again rather than failing searches
+function parseStoredEmbeddings(key: string, raw: unknown): SavedEmbeddings | null {
+  if (raw === null) {
+    return null;
+  }
+  const parsed = savedEmbeddingsSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error(`Ignoring invalid embeddings ${key}:`, parsed.error.issues);
+    return null;
+  }
+  return parsed.data;
+}
+
+// A malformed dictionary falls back to the built-in one rather than failing searches
+function parseStoredSynonyms(key: string, raw: unknown): SynonymEntries | null {
+  if (raw === null) {
+    return null;
+  }
+  const parsed = synonymDictionarySchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error(`Ignoring invalid synonym dictionary ${key}:`, parsed.error.issues);
+    return null;
+  }
+  return parsed.data;
+}
+
+/**
+ * Serves documents held in the isolate, by default the seed corpus compiled
+ * into the Worker. Writes last only as long as the isolate does.
+ */
+export class MemoryDocumentStore implements DocumentStore {
+  readonly name = "memory";
+  private documents: Map<string, DeepWikiDocument>;
+  private embeddings = new Map<string, SavedEmbeddings>();
+
+  constructor(
+    documents: DeepWikiDocument[] = seedDocuments,
+    private synonyms: SynonymEntries = DEFAULT_SYNONYMS,
+  ) {
+    this.documents = new Map(documents.map((doc) => [revisionId(doc), doc]));
+  }
+
+  async loadDocuments(): Promise<DeepWikiDocument[]> {
+    return [...this.documents.values()];
+  }
+
+  async loadSynonyms(): Promise<SynonymEntries | null> {
+    return this.synonyms;
+  }
+
+  async putDocuments(documents: DeepWikiDocument[]): Promise<void> {
+    for (const doc of documents) {
+      this.documents.set(revisionId(doc), doc);
+    }
+  }
+
+  async deleteDocuments(documents: DeepWikiDocument[]): Promise<void> {
+    for (const doc of documents) {
+      this.documents.delete(revisionId(doc));
+    }
+  }
+
+  async loadEmbeddings(embedder: string): Promise<SavedEmbeddings | null> {
+    return this.embeddings.get(embedder) ?? null;
+  }
+
+  async saveEmbeddings(embedder: string, embeddings: SavedEmbeddings): Promise<void> {
+    this.embeddings.set(embedder, embeddings);
+  }
+}
+
+/**
+ * Reads one JSON document revision per key under `prefix` (e.g.
+ * `doc:mcp-overview@2024-11-25`), KV_BULK_GET_LIMIT keys per request, the
+ * synonym dictionary from `synonymsKey`, and each embedder's saved embeddings
+ * from one key under `embeddingsPrefix`.
+ */
+export class KVDocumentStore implements DocumentStore {
+  readonly name = "kv";
+
+  constructor(
+    private namespace: KVNamespace,
+    private prefix = "doc:",
+    private synonymsKey = "synonyms",
+    private embeddingsPrefix = "embeddings:",
+  ) {}
+
+  async loadDocuments(): Promise<DeepWikiDocument[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.namespace.list({ prefix: this.prefix, cursor });
+      keys.push(...page.keys.map((key) => key.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const documents: DeepWikiDocument[] = [];
+    for (let start = 0; start < keys.length; start += KV_BULK_GET_LIMIT) {
+      // Read as text so one malformed value doesn't fail the whole batch
+      const values = await this.namespace.get(keys.slice(start, start + KV_BULK_GET_LIMIT), "text");
+      for (const [key, value] of values) {
+        let doc: DeepWikiDocument | null = null;
+        try {
+          doc = value === null ? null : parseStoredDocument(key, JSON.parse(value));
+        } catch (error) {
+          console.error(`Skipping unreadable document ${key}:`, error);
+        }
+        if (doc) {
+          documents.push(doc);
+        }
+      }
+    }
+    return documents;
+  }
+
+  async loadSynonyms(): Promise<SynonymEntries | null> {
+    return parseStoredSynonyms(this.synonymsKey, await this.namespace.get(this.synonymsKey, "json"));
+  }
+
+  async putDocuments(documents: DeepWikiDocument[]): Promise<void> {
+    await Promise.all(documents.map((doc) => this.namespace.put(`${this.prefix}${revisionId(doc)}`, JSON.stringify(doc))));
+  }
+
+  async deleteDocuments(documents: DeepWikiDocument[]): Promise<void> {
+    await Promise.all(
+      documents.map(async (doc) => {
+        await this.namespace.delete(`${this.prefix}${revisionId(doc)}`);
+        // The revision may also be stored under its legacy key, without the version
+        const legacyKey = `${this.prefix}${doc.id}`;
+        const legacy = parseStoredDocument(legacyKey, await this.namespace.get(legacyKey, "json"));
+        if (legacy?.metadata.version === doc.metadata.version) {
+          await this.namespace.delete(legacyKey);
+        }
+      }),
+    );
+  }
+
+  async loadEmbeddings(embedder: string): Promise<SavedEmbeddings | null> {
+    const key = `${this.embeddingsPrefix}${embedder}`;
+    return parseStoredEmbeddings(key, await this.namespace.get(key, "json"));
+  }
+
+  async saveEmbeddings(embedder: string, embeddings: SavedEmbeddings): Promise<void> {
+    await this.namespace.put(`${this.embeddingsPrefix}${embedder}`, JSON.stringify(embeddings));
+  }
+}
+
+/**
+ * Reads one JSON object per document revision under `prefix` (e.g.
+ * `docs/mcp-overview@2024-11-25.json`), the synonym dictionary from
+ * `synonymsKey`, and each embedder's saved embeddings from one object under
+ * `embeddingsPrefix`.
+ *
+ * R2 has no bulk reads, so a copy of every revision object is kept in one
+ * bundle object (`bundleKey`) along with its ETag. A load lists the prefix,
+ * takes unchanged objects from the bundle and reads only new or changed ones,
+ * so objects written by other tools are picked up too; the bundle is
+ * rewritten whenever it was out of date.
+ */
+export class R2DocumentStore implements DocumentStore {
+  readonly name = "r2";
+
+  constructor(
+    private bucket: R2Bucket,
+    private prefix = "docs/",
+    private synonymsKey = "synonyms.json",
+    private embeddingsPrefix = "embeddings/",
+    private bundleKey = "docs.bundle.json",
+  ) {}
+
+  async loadDocuments(): Promise<DeepWikiDocument[]> {
+    const etags = new Map<string, string>();
+    let cursor: string | undefined;
+    do {
+      const page = await this.bucket.list({ prefix: this.prefix, cursor });
+      for (const object of page.objects) {
+        if (object.key.endsWith(".json")) {
+          etags.set(object.key, object.etag);
+        }
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    const bundle = await this.loadBundle();
+    const stale = [...etags].filter(([key, etag]) => bundle[key]?.etag !== etag).map(([key]) => key);
+    const current: DocumentBundle = {};
+    for (const [key, etag] of etags) {
+      if (bundle[key]?.etag === etag) {
+        current[key] = bundle[key];
+      }
+    }
+
+    for (let start = 0; start < stale.length; start += R2_READ_CONCURRENCY) {
+      await Promise.all(
+        stale.slice(start, start + R2_READ_CONCURRENCY).map(async (key) => {
+          const object = await this.bucket.get(key);
+          if (!object) {
+            return;
+          }
+          try {
+            current[key] = { etag: object.etag, document: await object.json() };
+          } catch (error) {
+            console.error(`Skipping unreadable document ${key}:`, error);
+          }
+        }),
+      );
+    }
+
+    if (stale.length > 0 || Object.keys(bundle).length !== Object.keys(current).length) {
+      await this.bucket
+        .put(this.bundleKey, JSON.stringify(current), { httpMetadata: { contentType: "application/json" } })
+        .catch((error) => console.error(`Failed to update document bundle ${this.bundleKey}:`, error));
+    }
+
+    return Object.entries(current)
+      .map(([key, { document }]) => parseStoredDocument(key, document))
+      .filter((doc): doc is DeepWikiDocument => doc !== null);
+  }
+
+  // The bundle is only a cache, so a missing or unreadable one means reading every object
+  private async loadBundle(): Promise<DocumentBundle> {
+    const object = await this.bucket.get(this.bundleKey);
+    if (!object) {
+      return {};
+    }
+    try {
+      return await object.json<DocumentBundle>();
+    } catch (error) {
+      console.error(`Ignoring unreadable document bundle ${this.bundleKey}:`, error);
+      return {};
+    }
+  }
+
+  async loadSynonyms(): Promise<SynonymEntries | null> {
+    const object = await this.bucket.get(this.synonymsKey);
+    if (!object) {
+      return null;
+    }
+    try {
+      return parseStoredSynonyms(this.synonymsKey, await object.json());
+    } catch (error) {
+      console.error(`Ignoring unreadable synonym dictionary ${this.synonymsKey}:`, error);
+      return null;
+    }
+  }
+
+  async putDocuments(documents: DeepWikiDocument[]): Promise<void> {
+    await Promise.all(
+      documents.map((doc) =>
+        this.bucket.put(`${this.prefix}${revisionId(doc)}.json`, JSON.stringify(doc), {
+          httpMetadata: { contentType: "application/json" },
+        }),
+      ),
+    );
+  }
+
+  async deleteDocuments(documents: DeepWikiDocument[]): Promise<void> {
+    await Promise.all(
+      documents.map(async (doc) => {
+        await this.bucket.delete(`${this.prefix}${revisionId(doc)}.json`);
+        // The revision may also be stored under its legacy key, without the version
+        const legacyKey = `${this.prefix}${doc.id}.json`;
+        const object = await this.bucket.get(legacyKey);
+        const legacy = object ? parseStoredDocument(legacyKey, await object.json().catch(() => null)) : null;
+        if (legacy?.metadata.version === doc.metadata.version) {
+          await this.bucket.delete(legacyKey);
+        }
+      }),
+    );
+  }
+
+  // Embedder names contain slashes ("workers-ai:@cf/baai/bge-base-en-v1.5")
+  private embeddingsKey(embedder: string): string {
+    return `${this.embeddingsPrefix}${encodeURIComponent(embedder)}.json`;
+  }
+
+  async loadEmbeddings(embedder: string): Promise<SavedEmbeddings | null> {
+    const key = this.embeddingsKey(embedder);
+    const object = await this.bucket.get(key);
+    if (!object) {
+      return null;
+    }
+    try {
+      return parseStoredEmbeddings(key, await object.json());
+    } catch (error) {
+      console.error(`Ignoring unreadable embeddings ${key}:`, error);
+      return null;
+    }
+  }
+
+  async saveEmbeddings(embedder: string, embeddings: SavedEmbeddings): Promise<void> {
+    await this.bucket.put(this.embeddingsKey(embedder), JSON.stringify(embeddings), {
+      httpMetadata: { contentType: "application/json" },
+    });
+  }
+}
+
+/**
+ * Picks the store from the bindings that are configured: an R2 bucket
+ * (DOCS_BUCKET) wins over a KV namespace (DOCS_KV); without either the
+ * Worker serves the seed corpus.
+ */
+export function createDocumentStore(env: Env): DocumentStore {
+  if (env.DOCS_BUCKET) {
+    return new R2DocumentStore(env.DOCS_BUCKET);
+  }
+  if (env.DOCS_KV) {
+    return new KVDocumentStore(env.DOCS_KV);
+  }
+  return new MemoryDocumentStore();
+}
+
+// Search over the configured store, created on first use and cached per isolate
+let deepWikiSearch: DeepWikiSearch | undefined;
+let documentStore: DocumentStore | undefined;
+
+export function getDocumentStore(env: Env): DocumentStore {
+  documentStore ??= createDocumentStore(env);
+  return documentStore;
+}
+
+export async function getDeepWikiSearch(env: Env): Promise<DeepWikiSearch> {
+  deepWikiSearch ??= new DeepWikiSearch(getDocumentStore(env), createEmbedder(env));
+  await deepWikiSearch.load();
+  return deepWikiSearch;
+}
+
+/**
+ * Writes documents to the configured store, stamped with the write time, and
+ * makes this isolate's search pick them up on its next query. Other isolates
+ * see them once their cache expires.
+ *
+ * @returns The documents as written
+ */
+export async function putDocuments(env: Env, documents: DeepWikiDocument[]): Promise<DeepWikiDocument[]> {
+  const written = withWriteTime(documents);
+  await getDocumentStore(env).putDocuments(written);
+  deepWikiSearch?.invalidate();
+  return written;
+}
+
+// Removes document revisions from the configured store, reindexing like putDocuments
+export async function deleteDocuments(env: Env, documents: DeepWikiDocument[]): Promise<void> {
+  await getDocumentStore(env).deleteDocuments(documents);
+  deepWikiSearch?.invalidate();
+}
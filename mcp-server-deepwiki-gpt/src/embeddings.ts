@@ -0,0 +1,103 @@
+// Text embedders for semantic search: Workers AI in production, a hashing embedder offline
+
+import { analyze } from "./text-analysis";
+
+export interface Embedder {
+  // Human-readable name for logs
+  readonly name: string;
+  // Cosine similarity below which a passage isn't considered related
+  readonly minSimilarity: number;
+  // One unit-length vector per input text, in order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const WORKERS_AI_MODEL = "@cf/baai/bge-base-en-v1.5";
+// Workers AI accepts at most 100 texts per embeddings request
+const WORKERS_AI_BATCH_SIZE = 100;
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * Embeds text with a Workers AI embedding model (BGE base by default).
+ */
+export class WorkersAIEmbedder implements Embedder {
+  readonly name: string;
+  // BGE similarities between unrelated English texts commonly reach 0.5
+  readonly minSimilarity = 0.65;
+
+  constructor(
+    private ai: Ai,
+    private model: typeof WORKERS_AI_MODEL = WORKERS_AI_MODEL,
+  ) {
+    this.name = `workers-ai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += WORKERS_AI_BATCH_SIZE) {
+      const { data } = await this.ai.run(this.model, { text: texts.slice(start, start + WORKERS_AI_BATCH_SIZE) });
+      vectors.push(...data.map(normalize));
+    }
+    return vectors;
+  }
+}
+
+// FNV-1a, enough to spread terms over the hashing embedder's buckets
+function hash(term: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    value ^= term.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedder: analyzed terms (and adjacent term
+ * pairs) hashed into a fixed number of signed buckets. It only captures word
+ * overlap, not meaning, but has the same shape as a real embedder.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name: string;
+  readonly minSimilarity = 0.15;
+
+  constructor(private dimensions = 1024) {
+    this.name = `hash:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      const terms = analyze(text);
+      const features = [...terms, ...terms.slice(1).map((term, i) => `${terms[i]} ${term}`)];
+      for (const feature of features) {
+        const value = hash(feature);
+        vector[value % this.dimensions] += value & 0x80000000 ? -1 : 1;
+      }
+      return normalize(vector);
+    });
+  }
+}
+
+/**
+ * Picks the embedder from the EMBEDDER var: "workers-ai" (the default when the
+ * AI binding exists), "hash" for the local fake, or "none" to turn semantic
+ * search off.
+ */
+export function createEmbedder(env: Env): Embedder | null {
+  const choice = env.EMBEDDER ?? (env.AI ? "workers-ai" : "none");
+  switch (choice) {
+    case "workers-ai":
+      return env.AI ? new WorkersAIEmbedder(env.AI) : null;
+    case "hash":
+      return new HashingEmbedder();
+    case "none":
+      return null;
+    default:
+      console.error(`Unknown EMBEDDER ${choice}, semantic search disabled`);
+      return null;
+  }
+}
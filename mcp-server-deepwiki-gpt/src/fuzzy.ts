@@ -0,0 +1,85 @@
+// Typo tolerance: finds index terms within a small edit distance of a query
+// term, e.g. "authentcation" -> "authent" (the stem of "authentication").
+
+// Short terms are too easy to turn into other words, so they must match exactly
+export function maxEditsFor(term: string): number {
+  if (term.length < 4) {
+    return 0;
+  }
+  return term.length < 8 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions, so "teh" is one edit from "the"). Gives up and returns
+ * `max + 1` as soon as the distance must exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousPrevious[j - 2] + 1);
+      }
+      current[j] = distance;
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+    if (rowMinimum > max) {
+      return max + 1;
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export type FuzzyMatch = {
+  term: string;
+  distance: number;
+};
+
+/**
+ * Looks up terms of a fixed vocabulary by edit distance. Terms are bucketed
+ * by length, so only candidates that could be close enough are compared.
+ */
+export class FuzzyMatcher {
+  private byLength = new Map<number, string[]>();
+
+  constructor(vocabulary: Iterable<string>) {
+    for (const term of vocabulary) {
+      const bucket = this.byLength.get(term.length);
+      if (bucket) {
+        bucket.push(term);
+      } else {
+        this.byLength.set(term.length, [term]);
+      }
+    }
+  }
+
+  // Vocabulary terms within the term's edit allowance, closest first
+  similar(term: string): FuzzyMatch[] {
+    const max = maxEditsFor(term);
+    const matches: FuzzyMatch[] = [];
+    if (max === 0) {
+      return matches;
+    }
+    for (let length = term.length - max; length <= term.length + max; length++) {
+      for (const candidate of this.byLength.get(length) ?? []) {
+        const distance = editDistance(term, candidate, max);
+        if (distance <= max && candidate !== term) {
+          matches.push({ term: candidate, distance });
+        }
+      }
+    }
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+}
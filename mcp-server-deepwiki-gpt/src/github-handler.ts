@@ -46,7 +46,8 @@ async function redirectToGithub(request: Request, oauthReqInfo: AuthRequest, hea
       ...headers,
       location: getUpstreamAuthorizeUrl({
         upstream_url: "https://github.com/login/oauth/authorize",
-        scope: "read:user",
+        // read:org lists the user's organization and team memberships, for document access control
+        scope: "read:user read:org",
         client_id: env.GITHUB_CLIENT_ID,
         redirect_uri: new URL("/callback", request.url).href,
         state: btoa(JSON.stringify(oauthReqInfo)),
@@ -117,8 +118,10 @@ app.get("/callback", async (c) => {
     }
 
     // Fetch the user info from GitHub
-    const user = await new Octokit({ auth: accessToken }).rest.users.getAuthenticated();
+    const octokit = new Octokit({ auth: accessToken });
+    const user = await octokit.rest.users.getAuthenticated();
     const { login, name, email } = user.data;
+    const { orgs, teams } = await fetchMemberships(octokit, login);
 
     // Return back to the MCP client a new token
     const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
@@ -134,6 +137,8 @@ app.get("/callback", async (c) => {
         name,
         email,
         accessToken,
+        orgs,
+        teams,
       } as Props,
     });
 
@@ -145,6 +150,28 @@ app.get("/callback", async (c) => {
   }
 });
 
+/**
+ * The user's GitHub organizations and teams, lowercased, which decide the
+ * documents they can read (see access.ts). If GitHub won't list them, e.g.
+ * because the read:org scope wasn't granted, the user gets public documents
+ * only rather than a failed login.
+ */
+async function fetchMemberships(octokit: Octokit, login: string): Promise<{ orgs: string[]; teams: string[] }> {
+  try {
+    const [orgs, teams] = await Promise.all([
+      octokit.paginate(octokit.rest.orgs.listForAuthenticatedUser, { per_page: 100 }),
+      octokit.paginate(octokit.rest.teams.listForAuthenticatedUser, { per_page: 100 }),
+    ]);
+    return {
+      orgs: orgs.map((org) => org.login.toLowerCase()),
+      teams: teams.map((team) => `${team.organization.login}/${team.slug}`.toLowerCase()),
+    };
+  } catch (error) {
+    console.error(`Failed to list GitHub memberships of ${login}, allowing public documents only:`, error);
+    return { orgs: [], teams: [] };
+  }
+}
+
 // Add a debug endpoint to test GitHub OAuth configuration
 app.get("/debug/oauth-config", async (c) => {
   const baseUrl = new URL(c.req.url).origin;
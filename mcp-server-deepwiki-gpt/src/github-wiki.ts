@@ -0,0 +1,271 @@
+// On-demand ingestion of GitHub repositories into DeepWikiSearch: the README,
+// Markdown under docs/ and the repository wiki, fetched with the caller's
+// GitHub token. Pages of a private repository are tagged with its access level
+// (repo:<owner>/<repo>), so they are hidden from search, resources and prompts,
+// and every caller's token is checked against the repository before they are
+// served, even from the index. The API and raw-content hosts are configurable (GITHUB_API_URL,
+// GITHUB_RAW_URL) so the tools can run against a local stand-in for GitHub.
+
+import { Octokit } from "octokit";
+import { z } from "zod";
+import type { DeepWikiDocument, DeepWikiSearch } from "./deepwiki-data";
+
+// Access levels of private repositories' pages start with this (see access.ts)
+const REPOSITORY_ACCESS_PREFIX = "repo:";
+
+const DEFAULT_API_URL = "https://api.github.com";
+const DEFAULT_RAW_URL = "https://raw.githubusercontent.com";
+
+// Limits per repository so a huge monorepo can't exhaust the Worker. With the
+// repository and tree lookups, one fetch per file and per wiki page stays under
+// the free plan's 50 subrequests per request
+const MAX_REPOSITORY_FILES = 25;
+const MAX_FILE_BYTES = 200 * 1024;
+const MAX_WIKI_PAGES = 15;
+
+// Files and wiki pages fetched at once (Workers allow six open connections)
+const FETCH_CONCURRENCY = 6;
+
+// How long an indexed repository is reused before it is fetched again
+const REPOSITORY_TTL_MS = 10 * 60 * 1000;
+
+export type GitHubWikiOptions = {
+  token: string;
+  apiUrl?: string;
+  rawUrl?: string;
+};
+
+export type RepositoryName = {
+  owner: string;
+  repo: string;
+};
+
+const REPOSITORY_NAME = /^([\w.-]+)\/([\w.-]+)$/;
+
+// `repoName` argument shared by the repository wiki tools
+export const repoNameSchema = z
+  .string()
+  .trim()
+  .regex(REPOSITORY_NAME, "repoName must look like owner/repo")
+  .describe("GitHub repository in owner/repo form, e.g. facebook/react.");
+
+export function parseRepositoryName(repoName: string): RepositoryName {
+  const match = repoName.trim().match(REPOSITORY_NAME);
+  if (!match) {
+    throw new Error(`Invalid repository name ${repoName}, expected owner/repo`);
+  }
+  return { owner: match[1], repo: match[2] };
+}
+
+// Document IDs for a repository are "<owner>/<repo>:<path>"
+export function repositoryDocumentPrefix(repoName: string): string {
+  return `${repoName.trim().toLowerCase()}:`;
+}
+
+// metadata.access of a private repository's pages
+export function repositoryAccess(repoName: string): string {
+  return `${REPOSITORY_ACCESS_PREFIX}${repoName.trim().toLowerCase()}`;
+}
+
+export function gitHubWikiOptions(env: Env, token: string): GitHubWikiOptions {
+  return { token, apiUrl: env.GITHUB_API_URL, rawUrl: env.GITHUB_RAW_URL };
+}
+
+function isDocumentationPath(path: string): boolean {
+  if (!/\.(md|markdown)$/i.test(path)) {
+    return false;
+  }
+  return /^readme\.[^/]+$/i.test(path) || /^docs?\//i.test(path);
+}
+
+function titleFor(markdown: string, fallback: string): string {
+  return markdown.match(/^#\s+(.+)$/m)?.[1]?.trim() || fallback;
+}
+
+// Wiki pages referenced from a page: [[Page]], [[Label|Page]] and relative links like (Page-Name)
+function wikiLinks(markdown: string): string[] {
+  const pages = new Set<string>();
+  for (const match of markdown.matchAll(/\[\[([^\]]+)\]\]/g)) {
+    const target = match[1].split("|").pop()!.trim();
+    pages.add(target.replace(/\s+/g, "-"));
+  }
+  for (const match of markdown.matchAll(/\]\(([^)#\s:]+)\)/g)) {
+    pages.add(match[1].replace(/^\.?\//, "").replace(/\.md$/i, ""));
+  }
+  return [...pages].filter((page) => page && !page.includes("/"));
+}
+
+function octokitFor(options: GitHubWikiOptions): Octokit {
+  return new Octokit({ auth: options.token, baseUrl: options.apiUrl ?? DEFAULT_API_URL });
+}
+
+// Throws if the repository doesn't exist or the token can't read it
+async function getRepository(octokit: Octokit, { owner, repo }: RepositoryName) {
+  try {
+    return (await octokit.rest.repos.get({ owner, repo })).data;
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      throw new Error(`Repository ${owner}/${repo} not found or not accessible with your GitHub account`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetches a repository's README, docs/ Markdown and wiki pages as documents.
+ * Throws if the repository doesn't exist or the token can't read it.
+ */
+export async function loadRepositoryDocuments(repoName: string, options: GitHubWikiOptions): Promise<DeepWikiDocument[]> {
+  const { owner, repo } = parseRepositoryName(repoName);
+  const fullName = `${owner}/${repo}`.toLowerCase();
+  const octokit = octokitFor(options);
+  const repository = await getRepository(octokit, { owner, repo });
+
+  const access = repository.private ? { access: repositoryAccess(fullName) } : {};
+  const version = (repository.pushed_at ?? repository.updated_at ?? new Date().toISOString()).slice(0, 10);
+  const tags = [fullName, owner.toLowerCase(), "github"];
+  const documents: DeepWikiDocument[] = [];
+
+  const { data: tree } = await octokit.rest.git.getTree({
+    owner,
+    repo,
+    tree_sha: repository.default_branch,
+    recursive: "true",
+  });
+  const paths = tree.tree
+    .filter((entry) => entry.type === "blob" && entry.path && isDocumentationPath(entry.path) && (entry.size ?? 0) <= MAX_FILE_BYTES)
+    .map((entry) => entry.path!)
+    .slice(0, MAX_REPOSITORY_FILES);
+
+  for (let start = 0; start < paths.length; start += FETCH_CONCURRENCY) {
+    const batch = await Promise.all(
+      paths.slice(start, start + FETCH_CONCURRENCY).map(async (path): Promise<DeepWikiDocument> => {
+        const { data } = await octokit.rest.repos.getContent({
+          owner,
+          repo,
+          path,
+          ref: repository.default_branch,
+          mediaType: { format: "raw" },
+        });
+        const markdown = data as unknown as string;
+        return {
+          id: `${fullName}:${path}`,
+          title: titleFor(markdown, path),
+          content: markdown,
+          url: `${repository.html_url}/blob/${repository.default_branch}/${path}`,
+          metadata: {
+            version,
+            category: /^readme/i.test(path) ? "readme" : "docs",
+            tags,
+          },
+        };
+      }),
+    );
+    documents.push(...batch);
+  }
+
+  if (repository.has_wiki) {
+    documents.push(...(await loadWikiPages(owner, repo, fullName, repository.html_url, version, tags, options)));
+  }
+
+  return documents.map((doc) => ({ ...doc, metadata: { ...doc.metadata, ...access } }));
+}
+
+// The REST API has no wiki endpoints, so crawl raw pages breadth-first from
+// Home. Missing pages count against MAX_WIKI_PAGES too, as each is a subrequest
+async function loadWikiPages(
+  owner: string,
+  repo: string,
+  fullName: string,
+  htmlUrl: string,
+  version: string,
+  tags: string[],
+  options: GitHubWikiOptions,
+): Promise<DeepWikiDocument[]> {
+  const rawUrl = options.rawUrl ?? DEFAULT_RAW_URL;
+  const documents: DeepWikiDocument[] = [];
+  const queue = ["Home"];
+  const seen = new Set(queue);
+  let fetched = 0;
+
+  while (queue.length > 0 && fetched < MAX_WIKI_PAGES) {
+    const pages = queue.splice(0, Math.min(FETCH_CONCURRENCY, MAX_WIKI_PAGES - fetched));
+    fetched += pages.length;
+    const markdowns = await Promise.all(
+      pages.map(async (page) => {
+        const response = await fetch(`${rawUrl}/wiki/${owner}/${repo}/${encodeURIComponent(page)}.md`, {
+          headers: { Authorization: `Bearer ${options.token}` },
+        });
+        return response.ok ? response.text() : null;
+      }),
+    );
+
+    pages.forEach((page, i) => {
+      const markdown = markdowns[i];
+      if (markdown === null) {
+        return;
+      }
+      documents.push({
+        id: `${fullName}:wiki/${page}`,
+        title: titleFor(markdown, page.replace(/-/g, " ")),
+        content: markdown,
+        url: `${htmlUrl}/wiki/${page}`,
+        metadata: { version, category: "wiki", tags: [...tags, "wiki"] },
+      });
+
+      for (const link of wikiLinks(markdown)) {
+        if (!seen.has(link)) {
+          seen.add(link);
+          queue.push(link);
+        }
+      }
+    });
+  }
+
+  return documents;
+}
+
+/**
+ * Makes sure a repository's documents are in the search index, fetching them
+ * from GitHub if they aren't or if the indexed copy has expired. The caller's
+ * token is checked against the repository either way, so an indexed private
+ * repository is only served to callers who can read it.
+ *
+ * @returns The repository's documents as currently indexed
+ */
+export async function ensureRepositoryIndexed(
+  search: DeepWikiSearch,
+  repoName: string,
+  options: GitHubWikiOptions,
+): Promise<DeepWikiDocument[]> {
+  const prefix = repositoryDocumentPrefix(repoName);
+  const lastIndexed = search.indexedAt(prefix);
+
+  if (!lastIndexed || Date.now() - lastIndexed > REPOSITORY_TTL_MS) {
+    const documents = await loadRepositoryDocuments(repoName, options);
+    search.replaceIndexedDocuments(prefix, documents);
+    console.log(`DeepWiki indexed ${documents.length} documents for ${repoName}`);
+  } else {
+    await getRepository(octokitFor(options), parseRepositoryName(repoName));
+  }
+
+  return search.getAllDocuments().filter((doc) => doc.id.startsWith(prefix));
+}
+
+/**
+ * Whether the caller may read a page of a private repository (one whose
+ * access is repo:<owner>/<repo>), checked with their token. False for any
+ * other document.
+ */
+export async function canReadRepositoryDocument(doc: DeepWikiDocument, options: GitHubWikiOptions): Promise<boolean> {
+  const access = doc.metadata.access?.toLowerCase();
+  if (!access?.startsWith(REPOSITORY_ACCESS_PREFIX)) {
+    return false;
+  }
+  try {
+    await getRepository(octokitFor(options), parseRepositoryName(access.slice(REPOSITORY_ACCESS_PREFIX.length)));
+    return true;
+  } catch {
+    return false;
+  }
+}
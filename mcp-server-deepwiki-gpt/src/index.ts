@@ -1,230 +1,403 @@
-import { DeepWikiSearch } from "./deepwiki-data";
+import OAuthProvider from "@cloudflare/workers-oauth-provider";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { McpAgent } from "agents/mcp";
+import { type DocumentFilter, documentAccess } from "./access";
+import { getDeepWikiSearch } from "./document-store";
+import { AdminHandler } from "./admin-handler";
+import { GitHubHandler } from "./github-handler";
+import { dispatchJsonRpc, errorResponse, INVALID_PARAMS, INVALID_REQUEST, JsonRpcError, METHOD_NOT_FOUND, PARSE_ERROR } from "./jsonrpc";
+import { getPrompt, listPrompts, promptNames, registerPromptsWithServer } from "./prompts";
+import {
+  DEFAULT_PROTOCOL_VERSION,
+  isSupportedProtocolVersion,
+  negotiateProtocolVersion,
+  observeProtocolVersion,
+  PROTOCOL_VERSION_HEADER,
+  type ProtocolVersion,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  supportsStructuredContent,
+} from "./protocol";
+import {
+  MCP_LOGIN_HEADER,
+  MCP_SESSION_HEADER,
+  serveStreamableHttp,
+  STREAMABLE_HTTP_SESSION_PATH,
+  StreamableHttpSessionTransport,
+} from "./streamable-http";
+import {
+  DOCUMENT_URI_TEMPLATE,
+  documentFingerprint,
+  listResources,
+  listResourceTemplates,
+  parseDocumentUri,
+  readResource,
+  registerResourcesWithServer,
+} from "./resources";
+import { toolRegistry } from "./tools";
+import type { Props } from "./utils";
 
-// Initialize the DeepWiki search functionality
-const deepWikiSearch = new DeepWikiSearch();
+type State = {
+  toolCalls: Record<string, number>;
+  lastQuery: string | null;
+};
+
+// How often subscribed resources are checked for changes
+const RESOURCE_POLL_INTERVAL_MS = 60 * 1000;
+
+// Subscriptions are dropped once no client has been connected or sent a request for this long
+const SUBSCRIPTION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Storage key of the time of the session's last request
+const LAST_REQUEST_KEY = "lastRequestAt";
+
+// Storage key of the revision agreed in initialize, which the SDK forgets when the object hibernates
+const PROTOCOL_VERSION_KEY = "protocolVersion";
+
+// Storage key of the Streamable HTTP session ID, to reconnect the transport when an alarm wakes the object
+const HTTP_SESSION_KEY = "httpSessionId";
+
+/**
+ * DeepWiki MCP Durable Object
+ *
+ * One instance per MCP session (bound as MCP_OBJECT). Owns the McpServer for
+ * the session, registers the DeepWiki tools, resources and prompts, and
+ * records tool activity and resource subscriptions in the object's SQLite
+ * storage so they survive hibernation.
+ */
+export class DeepWikiGptMCP extends McpAgent<Env, State, Props> {
+  server = new McpServer({
+    name: "DeepWiki MCP Server",
+    version: "1.0.0",
+  });
 
-// Helper function to truncate text
-function truncateText(text: string, maxLength: number): string {
-  if (text.length <= maxLength) {
-    return text;
+  initialState: State = {
+    toolCalls: {},
+    lastQuery: null,
+  };
+
+  private protocolVersion: ProtocolVersion = DEFAULT_PROTOCOL_VERSION;
+
+  async init() {
+    this.sql`CREATE TABLE IF NOT EXISTS tool_calls (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tool TEXT NOT NULL,
+      argument TEXT NOT NULL,
+      called_at INTEGER NOT NULL
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS resource_subscriptions (
+      uri TEXT PRIMARY KEY,
+      fingerprint TEXT NOT NULL
+    )`;
+
+    this.protocolVersion = (await this.ctx.storage.get<ProtocolVersion>(PROTOCOL_VERSION_KEY)) ?? DEFAULT_PROTOCOL_VERSION;
+    observeProtocolVersion(this.server.server, async (version) => {
+      this.protocolVersion = version;
+      await this.ctx.storage.put(PROTOCOL_VERSION_KEY, version);
+    });
+
+    // Memberships come from the grant, so what this session can read is fixed when it starts
+    const canRead = documentAccess(this.props);
+    toolRegistry.registerWithServer(
+      this.server,
+      async () => ({ search: await getDeepWikiSearch(this.env), props: this.props, env: this.env, canRead }),
+      () => this.protocolVersion,
+      (name, args) => this.recordToolCall(name, args),
+    );
+    registerResourcesWithServer(this.server, () => getDeepWikiSearch(this.env), canRead, {
+      subscribe: async (uri, doc) => {
+        const fingerprint = await documentFingerprint(doc);
+        this.sql`INSERT OR REPLACE INTO resource_subscriptions (uri, fingerprint) VALUES (${uri}, ${fingerprint})`;
+        if ((await this.ctx.storage.getAlarm()) === null) {
+          await this.ctx.storage.setAlarm(Date.now() + RESOURCE_POLL_INTERVAL_MS);
+        }
+      },
+      unsubscribe: async (uri) => {
+        this.sql`DELETE FROM resource_subscriptions WHERE uri = ${uri}`;
+      },
+    });
+    registerPromptsWithServer(this.server, () => getDeepWikiSearch(this.env), canRead);
   }
-  
-  // Try to truncate at a word boundary
-  const truncated = text.substring(0, maxLength);
-  const lastSpace = truncated.lastIndexOf(' ');
-  
-  if (lastSpace > maxLength * 0.8) {
-    return truncated.substring(0, lastSpace) + '...';
+
+  private httpTransport?: StreamableHttpSessionTransport;
+
+  private async startHttpTransport(sessionId: string) {
+    await this.onStart();
+    const transport = new StreamableHttpSessionTransport(this.ctx.storage.sql, sessionId);
+    await this.server.connect(transport);
+    await this.ctx.storage.put(HTTP_SESSION_KEY, sessionId);
+    this.httpTransport = transport;
   }
-  
-  return truncated + '...';
-}
 
-// Handle MCP requests via SSE
-async function handleMCPRequest(request: Request): Promise<Response> {
-  try {
-    const body = await request.json() as any;
-    console.log("MCP Request:", JSON.stringify(body, null, 2));
-    
-    const { method, params, id } = body;
-    
-    let result: any;
-    
-    switch (method) {
-      case "initialize":
-        result = {
-          protocolVersion: "2024-11-05",
-          capabilities: {
-            tools: {}
-          },
-          serverInfo: {
-            name: "DeepWiki MCP Server",
-            version: "1.0.0"
-          }
-        };
-        break;
-        
-      case "tools/list":
-        result = {
-          tools: [
-            {
-              name: "search",
-              description: "Searches for resources using the provided query string and returns matching results.",
-              inputSchema: {
-                type: "object",
-                properties: {
-                  query: {
-                    type: "string",
-                    description: "Search query."
-                  }
-                },
-                required: ["query"],
-                additionalProperties: false
-              }
-            },
-            {
-              name: "fetch",
-              description: "Retrieves detailed content for a specific resource identified by the given ID.",
-              inputSchema: {
-                type: "object",
-                properties: {
-                  id: {
-                    type: "string",
-                    description: "ID of the resource to fetch."
-                  }
-                },
-                required: ["id"],
-                additionalProperties: false
-              }
-            }
-          ]
-        };
-        break;
-        
-      case "tools/call":
-        const { name, arguments: args } = params;
-        
-        if (name === "search") {
-          const { query } = args;
-          console.log(`DeepWiki search query: ${query}`);
-          
-          // Extract version from query if present
-          let version: string | undefined;
-          const versionMatch = query.match(/(\d{4}-\d{2}-\d{2})/);
-          if (versionMatch) {
-            version = versionMatch[1];
-          }
-
-          // Search documents
-          const documents = deepWikiSearch.search(query, version);
-          
-          // Convert to MCP search result format
-          const results = documents.map(doc => ({
-            id: doc.id,
-            title: doc.title,
-            text: truncateText(doc.content, 500), // Truncate for search results
-            url: doc.url || `https://deepwiki.mcpcentral.io/docs/${doc.id}`
-          }));
-
-          console.log(`DeepWiki found ${results.length} results for query: ${query}`);
-
-          result = {
-            content: [{ 
-              type: "text", 
-              text: JSON.stringify({ results }, null, 2)
-            }],
-          };
-        } else if (name === "fetch") {
-          const { id } = args;
-          console.log(`DeepWiki fetch request for ID: ${id}`);
-          
-          const document = deepWikiSearch.getDocument(id);
-          
-          if (!document) {
-            result = {
-              content: [{ 
-                type: "text", 
-                text: JSON.stringify({
-                  id,
-                  title: "Error",
-                  text: `Document with ID ${id} not found`,
-                  url: null,
-                  metadata: { error: "true" }
-                }, null, 2)
-              }],
-            };
-          } else {
-            // Return document in MCP content format with ChatGPT-compatible structure
-            const docResult = {
-              id: document.id,
-              title: document.title,
-              text: document.content,
-              url: document.url || `https://deepwiki.mcpcentral.io/docs/${document.id}`,
-              metadata: {
-                version: document.metadata.version,
-                category: document.metadata.category,
-                tags: document.metadata.tags.join(", "),
-                last_updated: document.metadata.version // Use version as last updated
-              }
-            };
-
-            console.log(`DeepWiki successfully fetched document: ${document.title}`);
-
-            result = {
-              content: [{ 
-                type: "text", 
-                text: JSON.stringify(docResult, null, 2)
-              }],
-            };
-          }
-        } else {
-          throw new Error(`Unknown tool: ${name}`);
-        }
-        break;
-        
-      default:
-        throw new Error(`Unknown method: ${method}`);
+  // Streamable HTTP sessions are handled here; everything else (SSE) goes to McpAgent
+  async fetch(request: Request): Promise<Response> {
+    await this.ctx.storage.put(LAST_REQUEST_KEY, Date.now());
+    const url = new URL(request.url);
+    if (url.pathname !== STREAMABLE_HTTP_SESSION_PATH) {
+      return super.fetch(request);
     }
-    
-    const response = {
-      jsonrpc: "2.0",
-      id,
-      result
-    };
-    
-    console.log("MCP Response:", JSON.stringify(response, null, 2));
-    
-    // Return as SSE format
-    const sseData = `data: ${JSON.stringify(response)}\n\n`;
-    
-    return new Response(sseData, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+
+    const sessionId = request.headers.get(MCP_SESSION_HEADER);
+    if (!sessionId) {
+      return new Response(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message: "Bad Request: Mcp-Session-Id header is required" }, id: null }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (!this.httpTransport) {
+      await this.ctx.blockConcurrencyWhile(async () => {
+        if (this.httpTransport) return;
+        await this.startHttpTransport(sessionId);
+      });
+    }
+
+    // Sessions belong to the GitHub user that initialized them
+    if (request.headers.get(MCP_LOGIN_HEADER) !== this.props?.login) {
+      return new Response(JSON.stringify({ jsonrpc: "2.0", error: { code: -32001, message: "Session not found" }, id: null }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (request.method === "DELETE") {
+      await this.httpTransport!.close();
+      this.httpTransport = undefined;
+      await this.ctx.storage.deleteAlarm();
+      await this.ctx.storage.deleteAll();
+      return new Response(null, { status: 204 });
+    }
+
+    return this.httpTransport!.handleRequest(request);
+  }
+
+  /**
+   * Checks subscribed documents and sends notifications/resources/updated for
+   * each one that changed (or was deleted) since the last check. Documents
+   * reach this isolate when its search cache expires, so a change is noticed
+   * within the cache TTL plus one interval.
+   *
+   * Polling stops, and the subscriptions are dropped, once the session has had
+   * no connected client (an SSE WebSocket or the Streamable HTTP GET stream)
+   * and no requests for SUBSCRIPTION_IDLE_TIMEOUT_MS; a client that comes back
+   * subscribes again.
+   */
+  async alarm() {
+    await this.ctx.blockConcurrencyWhile(async () => {
+      // An alarm can wake the object before any request has connected the server
+      if (this.server.isConnected()) return;
+      const sessionId = await this.ctx.storage.get<string>(HTTP_SESSION_KEY);
+      if (sessionId) {
+        await this.startHttpTransport(sessionId);
+      } else {
+        await this.onStart();
       }
     });
-    
-  } catch (error) {
-    console.error("MCP request error:", error);
-    
-    const errorResponse = {
-      jsonrpc: "2.0",
-      id: null,
-      error: {
-        code: -32603,
-        message: error instanceof Error ? error.message : String(error)
+
+    const subscriptions = this.sql<{ uri: string; fingerprint: string }>`SELECT uri, fingerprint FROM resource_subscriptions`;
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const connected = this.ctx.getWebSockets().length > 0 || this.httpTransport?.listening;
+    const lastRequestAt = (await this.ctx.storage.get<number>(LAST_REQUEST_KEY)) ?? 0;
+    if (!connected && Date.now() - lastRequestAt > SUBSCRIPTION_IDLE_TIMEOUT_MS) {
+      console.log(`Dropping ${subscriptions.length} resource subscriptions of idle session`);
+      this.sql`DELETE FROM resource_subscriptions`;
+      return;
+    }
+
+    const search = await getDeepWikiSearch(this.env);
+    const canRead = documentAccess(this.props);
+    for (const { uri, fingerprint } of subscriptions) {
+      const id = parseDocumentUri(uri);
+      // A document that became unreadable looks deleted to the subscriber
+      const doc = id === null ? null : search.resolveDocument(id);
+      const current = await documentFingerprint(doc && canRead(doc) ? doc : null);
+      if (current === fingerprint) {
+        continue;
       }
-    };
-    
-    const sseData = `data: ${JSON.stringify(errorResponse)}\n\n`;
-    
-    return new Response(sseData, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+      this.sql`UPDATE resource_subscriptions SET fingerprint = ${current} WHERE uri = ${uri}`;
+      try {
+        await this.server.server.sendResourceUpdated({ uri });
+      } catch (error) {
+        console.error(`Failed to notify subscriber of ${uri}:`, error);
       }
+    }
+
+    await this.ctx.storage.setAlarm(Date.now() + RESOURCE_POLL_INTERVAL_MS);
+  }
+
+  private recordToolCall(tool: string, args: Record<string, unknown>) {
+    this.sql`INSERT INTO tool_calls (tool, argument, called_at) VALUES (${tool}, ${JSON.stringify(args)}, ${Date.now()})`;
+    this.setState({
+      toolCalls: { ...this.state.toolCalls, [tool]: (this.state.toolCalls[tool] ?? 0) + 1 },
+      lastQuery: typeof args.query === "string" ? args.query : this.state.lastQuery,
     });
   }
 }
 
-// Export the server for Cloudflare Workers
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+};
+
+// Per-request state for the stateless endpoint
+type RequestContext = {
+  props: Props;
+  env: Env;
+  canRead: DocumentFilter;
+  protocolVersion: ProtocolVersion;
+};
+
+// Run a tool from the registry with this request's props and negotiated version
+async function callTool(params: Record<string, unknown> | undefined, context: RequestContext): Promise<CallToolResult> {
+  const name = params?.name;
+  if (typeof name !== "string") {
+    throw new JsonRpcError(INVALID_PARAMS, "Invalid params: tool name must be a string");
+  }
+  
+  return toolRegistry.call(
+    name,
+    params?.arguments,
+    { search: await getDeepWikiSearch(context.env), props: context.props, env: context.env, canRead: context.canRead },
+    supportsStructuredContent(context.protocolVersion)
+  );
+}
+
+// Handle a single MCP method; notifications resolve to undefined
+async function handleMCPMethod(method: string, params: Record<string, unknown> | undefined, context: RequestContext): Promise<unknown> {
+  switch (method) {
+    case "initialize":
+      return {
+        protocolVersion: negotiateProtocolVersion(params?.protocolVersion),
+        capabilities: {
+          tools: {},
+          // No subscribe: this endpoint has no stream to send notifications on
+          resources: {},
+          prompts: {}
+        },
+        serverInfo: {
+          name: "DeepWiki MCP Server",
+          version: "1.0.0"
+        }
+      };
+      
+    case "ping":
+      return {};
+      
+    case "tools/list":
+      return toolRegistry.list(
+        typeof params?.cursor === "string" ? params.cursor : undefined,
+        supportsStructuredContent(context.protocolVersion)
+      );
+      
+    case "tools/call":
+      return callTool(params, context);
+      
+    case "resources/list":
+      return listResources(await getDeepWikiSearch(context.env), typeof params?.cursor === "string" ? params.cursor : undefined, context.canRead);
+      
+    case "resources/templates/list":
+      return listResourceTemplates();
+      
+    case "resources/read":
+      if (typeof params?.uri !== "string") {
+        throw new JsonRpcError(INVALID_PARAMS, "Invalid params: uri must be a string");
+      }
+      return readResource(await getDeepWikiSearch(context.env), params.uri, context.canRead);
+      
+    case "prompts/list":
+      return listPrompts(typeof params?.cursor === "string" ? params.cursor : undefined);
+      
+    case "prompts/get":
+      if (typeof params?.name !== "string") {
+        throw new JsonRpcError(INVALID_PARAMS, "Invalid params: prompt name must be a string");
+      }
+      return getPrompt(await getDeepWikiSearch(context.env), params.name, params.arguments, context.canRead);
+      
+    default:
+      if (method.startsWith("notifications/")) {
+        return undefined;
+      }
+      throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+// Handle MCP requests via SSE
+async function handleMCPRequest(request: Request, env: Env, props: Props): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error("MCP request parse error:", error);
+    const sseData = `data: ${JSON.stringify(errorResponse(null, new JsonRpcError(PARSE_ERROR, "Parse error")))}\n\n`;
+    return new Response(sseData, { status: 400, headers: SSE_HEADERS });
+  }
+  
+  console.log(`MCP Request from ${props.login}:`, JSON.stringify(body, null, 2));
+  
+  // Each POST stands alone, so the negotiated revision comes from the header clients send after initialize
+  const headerVersion = request.headers.get(PROTOCOL_VERSION_HEADER);
+  if (headerVersion !== null && !isSupportedProtocolVersion(headerVersion)) {
+    const error = new JsonRpcError(INVALID_REQUEST, `Unsupported protocol version: ${headerVersion}`, { supported: SUPPORTED_PROTOCOL_VERSIONS });
+    return new Response(`data: ${JSON.stringify(errorResponse(null, error))}\n\n`, { status: 400, headers: SSE_HEADERS });
+  }
+  const context: RequestContext = { props, env, canRead: documentAccess(props), protocolVersion: headerVersion ?? DEFAULT_PROTOCOL_VERSION };
+  
+  const response = await dispatchJsonRpc(body, (method, params) => handleMCPMethod(method, params, context));
+  
+  // Notifications only: accepted, nothing to send back
+  if (response === null) {
+    return new Response(null, { status: 202, headers: SSE_HEADERS });
+  }
+  
+  console.log("MCP Response:", JSON.stringify(response, null, 2));
+  
+  // Return as SSE format
+  const sseData = `data: ${JSON.stringify(response)}\n\n`;
+  
+  return new Response(sseData, { headers: SSE_HEADERS });
+}
+
+// SSE transport backed by the DeepWikiGptMCP Durable Object (GET /sse, POST /sse/message)
+const sseHandler = DeepWikiGptMCP.serveSSE("/sse");
+
+// Streamable HTTP transport backed by the same Durable Object (POST/GET/DELETE /mcp)
+const streamableHttpHandler = serveStreamableHttp("/mcp");
+
+// Authenticated MCP endpoints. The OAuth provider validates the bearer token
+// before calling this handler and exposes the grant's props on ctx.props.
+const mcpApiHandler = {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     
-    // Handle SSE endpoint for MCP
+    if (url.pathname === '/mcp') {
+      return streamableHttpHandler.fetch(request, env, ctx);
+    }
+    
+    if (url.pathname.startsWith('/admin/')) {
+      return AdminHandler.fetch(request, env, ctx);
+    }
+    
+    // Single-shot JSON-RPC over POST /sse, kept for clients that don't open an event stream
     if (url.pathname === '/sse' && request.method === 'POST') {
-      return handleMCPRequest(request);
+      return handleMCPRequest(request, env, ctx.props as Props);
     }
     
+    return sseHandler.fetch(request, env, ctx);
+  }
+};
+
+// Everything outside the API routes: server info plus the GitHub OAuth flow
+const defaultHandler = {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+    
     // Handle root path with basic info
     if (url.pathname === '/') {
       return new Response(JSON.stringify({
@@ -232,12 +405,17 @@ export default {
         version: "1.0.0",
         description: "MCP server providing access to Model Context Protocol documentation and specifications",
         endpoints: {
-          sse: "/sse"
+          sse: "/sse",
+          mcp: "/mcp",
+          authorize: "/authorize",
+          token: "/token",
+          register: "/register",
+          metadata: "/.well-known/oauth-authorization-server"
         },
         capabilities: {
-          tools: ["search", "fetch"],
-          resources: false,
-          prompts: false
+          tools: toolRegistry.names(),
+          resources: [DOCUMENT_URI_TEMPLATE],
+          prompts: promptNames()
         }
       }), {
         headers: {
@@ -260,8 +438,20 @@ export default {
       });
     }
     
-    return new Response('Not Found', { status: 404 });
+    return GitHubHandler.fetch(request, env, ctx);
   }
 };
 
+// Export the server for Cloudflare Workers, wrapped in the OAuth provider so
+// /sse, /mcp and /admin/ require a bearer token minted through the GitHub flow
+export default new OAuthProvider({
+  apiRoute: ["/sse", "/mcp", "/admin/"],
+  // Runtime types from `wrangler types` and @cloudflare/workers-types disagree on Request/Headers
+  apiHandler: mcpApiHandler as any,
+  defaultHandler: defaultHandler as any,
+  authorizeEndpoint: "/authorize",
+  tokenEndpoint: "/token",
+  clientRegistrationEndpoint: "/register",
+});
+
 console.log("DeepWiki MCP Server initialized successfully");
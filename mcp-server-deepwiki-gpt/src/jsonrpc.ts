@@ -0,0 +1,104 @@
+// JSON-RPC 2.0 dispatching for the stateless POST /sse endpoint.
+// Handles notifications, batches and the standard error codes so the MCP
+// method handlers in index.ts only deal with methods and params.
+
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+export type JsonRpcId = string | number;
+
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId | null; result: unknown }
+  | { jsonrpc: "2.0"; id: JsonRpcId | null; error: { code: number; message: string; data?: unknown } };
+
+export type JsonRpcMethodHandler = (method: string, params: Record<string, unknown> | undefined) => Promise<unknown>;
+
+/**
+ * Error carrying a JSON-RPC error code. Thrown by method handlers; anything
+ * else that escapes a handler is reported as an internal error.
+ */
+export class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown,
+  ) {
+    super(message);
+    this.name = "JsonRpcError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// JSON-RPC 2.0 allows a null id (discouraged, but valid); the response echoes it
+function isValidId(id: unknown): id is JsonRpcId | null {
+  return typeof id === "string" || typeof id === "number" || id === null;
+}
+
+export function errorResponse(id: JsonRpcId | null, error: unknown): JsonRpcResponse {
+  if (error instanceof JsonRpcError) {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: { code: error.code, message: error.message, ...(error.data !== undefined && { data: error.data }) },
+    };
+  }
+
+  // Internal failures can carry details clients shouldn't see, so they only go to the log
+  console.error("Internal error handling JSON-RPC request:", error);
+  return { jsonrpc: "2.0", id, error: { code: INTERNAL_ERROR, message: "Internal error" } };
+}
+
+/**
+ * Dispatches a parsed request body, either a single message or a batch.
+ *
+ * @returns The response (or array of responses for a batch), or null when
+ * nothing should be sent back because the body only contained notifications.
+ */
+export async function dispatchJsonRpc(body: unknown, handler: JsonRpcMethodHandler): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  if (!Array.isArray(body)) {
+    return dispatchMessage(body, handler);
+  }
+
+  if (body.length === 0) {
+    return errorResponse(null, new JsonRpcError(INVALID_REQUEST, "Invalid Request: empty batch"));
+  }
+
+  const responses = await Promise.all(body.map((message) => dispatchMessage(message, handler)));
+  const sent = responses.filter((response): response is JsonRpcResponse => response !== null);
+  return sent.length > 0 ? sent : null;
+}
+
+async function dispatchMessage(message: unknown, handler: JsonRpcMethodHandler): Promise<JsonRpcResponse | null> {
+  if (!isObject(message) || message.jsonrpc !== "2.0" || typeof message.method !== "string") {
+    const id = isObject(message) && isValidId(message.id) ? message.id : null;
+    return errorResponse(id, new JsonRpcError(INVALID_REQUEST, "Invalid Request"));
+  }
+
+  const isNotification = !("id" in message);
+  if (!isNotification && !isValidId(message.id)) {
+    return errorResponse(null, new JsonRpcError(INVALID_REQUEST, "Invalid Request: id must be a string, number or null"));
+  }
+  const id = message.id as JsonRpcId | null;
+
+  if (message.params !== undefined && !isObject(message.params)) {
+    return isNotification ? null : errorResponse(id, new JsonRpcError(INVALID_PARAMS, "Invalid params: params must be an object"));
+  }
+
+  try {
+    const result = await handler(message.method, message.params);
+    return isNotification ? null : { jsonrpc: "2.0", id, result };
+  } catch (error) {
+    if (isNotification) {
+      // Notifications never get a response, not even an error
+      console.error(`Error handling notification ${message.method}:`, error);
+      return null;
+    }
+    return errorResponse(id, error);
+  }
+}
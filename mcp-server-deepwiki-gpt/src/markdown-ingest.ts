@@ -0,0 +1,123 @@
+// Markdown ingestion: turns a Markdown file with YAML front-matter into a
+// DeepWikiDocument. Shared by the build-time script (scripts/ingest-markdown.ts)
+// and the admin upload route.
+//
+//   ---
+//   id: mcp-tools              # optional, defaults to the file name
+//   title: MCP Tools           # optional, defaults to the first "# " heading
+//   url: https://modelcontextprotocol.io/docs/concepts/tools
+//   version: 2024-11-25        # also accepted under `metadata:`
+//   category: tools
+//   tags: [tools, functions]   # list or comma-separated string
+//   access: org:acme           # optional: public (default), org:<org> or team:<org>/<team-slug>
+//   ---
+//   # MCP Tools
+//   ...
+
+import { parse as parseYaml } from "yaml";
+import type { DeepWikiDocument } from "./deepwiki-data";
+import { deepWikiDocumentSchema } from "./document-store";
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+export type IngestIssue = {
+  field: string;
+  message: string;
+};
+
+/**
+ * Thrown when a Markdown file can't be turned into a valid DeepWikiDocument.
+ */
+export class DocumentValidationError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: IngestIssue[],
+  ) {
+    super(`Invalid document ${source}: ${issues.map((issue) => `${issue.field}: ${issue.message}`).join("; ")}`);
+    this.name = "DocumentValidationError";
+  }
+}
+
+// File name (or upload name) to document ID: "Getting Started.md" -> "getting-started"
+export function slugFromFileName(fileName: string): string {
+  return fileName
+    .replace(/^.*[\\/]/, "")
+    .replace(/\.(md|markdown)$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function asTags(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  return value;
+}
+
+// YAML turns unquoted dates and numbers into non-strings; the document model wants strings
+function asString(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return value;
+}
+
+/**
+ * Parses one Markdown file into a validated DeepWikiDocument.
+ *
+ * @param source - File name or upload name, used for the default ID and in errors
+ * @param markdown - File contents
+ */
+export function parseMarkdownDocument(source: string, markdown: string): DeepWikiDocument {
+  let frontMatter: Record<string, unknown> = {};
+  let body = markdown;
+
+  const match = markdown.match(FRONT_MATTER);
+  if (match) {
+    let parsed: unknown;
+    try {
+      parsed = parseYaml(match[1]);
+    } catch (error) {
+      throw new DocumentValidationError(source, [
+        { field: "front-matter", message: error instanceof Error ? error.message : String(error) },
+      ]);
+    }
+    if (parsed !== null && (typeof parsed !== "object" || Array.isArray(parsed))) {
+      throw new DocumentValidationError(source, [{ field: "front-matter", message: "must be a YAML mapping" }]);
+    }
+    frontMatter = (parsed ?? {}) as Record<string, unknown>;
+    body = markdown.slice(match[0].length);
+  }
+
+  const metadata = (frontMatter.metadata ?? {}) as Record<string, unknown>;
+  const heading = body.match(/^#\s+(.+)$/m)?.[1]?.trim();
+
+  const candidate = {
+    id: asString(frontMatter.id) ?? slugFromFileName(source),
+    title: frontMatter.title ?? heading,
+    content: body.trim(),
+    url: frontMatter.url,
+    metadata: {
+      version: asString(metadata.version ?? frontMatter.version),
+      category: metadata.category ?? frontMatter.category,
+      tags: asTags(metadata.tags ?? frontMatter.tags) ?? [],
+      access: metadata.access ?? frontMatter.access,
+    },
+  };
+
+  const result = deepWikiDocumentSchema.safeParse(candidate);
+  if (!result.success) {
+    throw new DocumentValidationError(
+      source,
+      result.error.issues.map((issue) => ({ field: issue.path.join(".") || "document", message: issue.message })),
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,33 @@
+// Cursor pagination for the MCP list methods (tools/list, resources/list).
+// Cursors are opaque to clients: the offset of the next page.
+
+import { INVALID_PARAMS, JsonRpcError } from "./jsonrpc";
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+function encodeCursor(offset: number): string {
+  return btoa(JSON.stringify({ offset }));
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(atob(cursor));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new JsonRpcError(INVALID_PARAMS, "Invalid params: invalid cursor");
+}
+
+// The page of `items` starting at `cursor`, and the cursor of the next page if there is one
+export function paginate<T>(items: T[], cursor: string | undefined, pageSize = DEFAULT_PAGE_SIZE): { page: T[]; nextCursor?: string } {
+  const offset = cursor === undefined ? 0 : decodeCursor(cursor);
+  const page = items.slice(offset, offset + pageSize);
+  const nextOffset = offset + page.length;
+  return {
+    page,
+    ...(nextOffset < items.length && { nextCursor: encodeCursor(nextOffset) }),
+  };
+}
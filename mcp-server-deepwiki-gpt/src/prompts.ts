@@ -0,0 +1,158 @@
+// MCP prompts: curated templates that embed the relevant documents as resources ahead of the task
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult, Prompt, PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { DocumentFilter } from "./access";
+import type { DeepWikiDocument, DeepWikiSearch } from "./deepwiki-data";
+import { INVALID_PARAMS, JsonRpcError } from "./jsonrpc";
+import { paginate } from "./pagination";
+import { documentUri } from "./resources";
+
+// Prompt arguments are always strings
+type PromptArgs = Record<string, z.ZodType<string> | z.ZodOptional<z.ZodType<string>>>;
+
+// Callbacks are methods, so any prompt is assignable to PromptDefinition<PromptArgs>
+export interface PromptDefinition<Args extends PromptArgs = PromptArgs> {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: Args;
+  // Documents embedded ahead of the task, most relevant first, from those the caller can read
+  documents(args: z.infer<z.ZodObject<Args>>, search: DeepWikiSearch, canRead: DocumentFilter): Promise<DeepWikiDocument[]>;
+  task(args: z.infer<z.ZodObject<Args>>): string;
+}
+
+// Identity helper so a prompt gets its argument types inferred from its schema
+function definePrompt<Args extends PromptArgs>(prompt: PromptDefinition<Args>): PromptDefinition<Args> {
+  return prompt;
+}
+
+// How many documents a prompt embeds from a search
+const MAX_EMBEDDED_DOCUMENTS = 3;
+
+async function searchDocuments(search: DeepWikiSearch, query: string, canRead: DocumentFilter): Promise<DeepWikiDocument[]> {
+  const { passages } = await search.searchPassages(query, { filter: canRead, limit: MAX_EMBEDDED_DOCUMENTS });
+  return passages.map((chunk) => chunk.document);
+}
+
+const explainConceptPrompt = definePrompt({
+  name: "explain_concept",
+  title: "Explain an MCP Concept",
+  description: "Explains a Model Context Protocol concept (e.g. resources, sampling, transports) from the documentation.",
+  argsSchema: {
+    concept: z.string().min(1).describe("The concept to explain, e.g. resource templates."),
+  },
+  documents: ({ concept }, search, canRead) => searchDocuments(search, concept, canRead),
+  task: ({ concept }) =>
+    `Explain the MCP concept "${concept}" using the documentation above. Start with a short definition, then cover how it works, ` +
+    `when to use it and a minimal example. Cite the documents you rely on by URI, and say so if they don't cover something.`,
+});
+
+const reviewServerSecurityPrompt = definePrompt({
+  name: "review_server_security",
+  title: "Review an MCP Server's Security",
+  description: "Reviews an MCP server's code or design against the MCP security guide.",
+  argsSchema: {
+    server: z.string().min(1).describe("Source code or a description of the MCP server to review."),
+  },
+  documents: (_, search, canRead) => searchDocuments(search, "category:security", canRead),
+  task: ({ server }) =>
+    `Review the following MCP server against the security guidance above. For each issue, quote the relevant code or design, ` +
+    `explain the risk, cite the guidance it violates by URI and suggest a fix. Finish with the practices the server already follows.\n\n${server}`,
+});
+
+const compareTransportsPrompt = definePrompt({
+  name: "compare_transports",
+  title: "Compare MCP Transports",
+  description: "Compares MCP transports (stdio, SSE, Streamable HTTP) and recommends one for a use case.",
+  argsSchema: {
+    transports: z.string().optional().describe('Transports to compare, e.g. "stdio, Streamable HTTP" (default: all of them).'),
+    useCase: z.string().optional().describe("What the server is for and where it runs, to base a recommendation on."),
+  },
+  documents: (_, search, canRead) => searchDocuments(search, "transport", canRead),
+  task: ({ transports, useCase }) =>
+    `Compare ${transports ? `these MCP transports: ${transports}` : "the MCP transports"} using the documentation above, ` +
+    `covering how each connects, deployment, authentication, streaming and resumability. ` +
+    (useCase ? `Then recommend one for this use case: ${useCase}. ` : "") +
+    `Cite the documents you rely on by URI.`,
+});
+
+// Prompts exposed by this server, in prompts/list order
+const prompts = new Map<string, PromptDefinition>(
+  [explainConceptPrompt, reviewServerSecurityPrompt, compareTransportsPrompt].map((prompt) => [prompt.name, prompt]),
+);
+
+export function promptNames(): string[] {
+  return [...prompts.keys()];
+}
+
+function describePrompt(prompt: PromptDefinition): Prompt {
+  return {
+    name: prompt.name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: Object.entries(prompt.argsSchema).map(([name, schema]) => ({
+      name,
+      ...(schema.description && { description: schema.description }),
+      required: !schema.isOptional(),
+    })),
+  };
+}
+
+async function renderPrompt(
+  prompt: PromptDefinition,
+  args: Record<string, string | undefined>,
+  search: DeepWikiSearch,
+  canRead: DocumentFilter,
+): Promise<GetPromptResult> {
+  const documents = await prompt.documents(args, search, canRead);
+  const messages: PromptMessage[] = documents.map((doc) => ({
+    role: "user",
+    content: {
+      type: "resource",
+      resource: { uri: documentUri(doc.id), mimeType: "text/markdown", text: doc.content },
+    },
+  }));
+  messages.push({ role: "user", content: { type: "text", text: prompt.task(args) } });
+  return { description: prompt.description, messages };
+}
+
+export function listPrompts(cursor: string | undefined): { prompts: Prompt[]; nextCursor?: string } {
+  const { page, nextCursor } = paginate([...prompts.values()], cursor);
+  return {
+    prompts: page.map(describePrompt),
+    ...(nextCursor && { nextCursor }),
+  };
+}
+
+/**
+ * prompts/get for the stateless endpoint. An unknown prompt or invalid
+ * arguments is a protocol error (-32602).
+ */
+export async function getPrompt(search: DeepWikiSearch, name: string, args: unknown, canRead: DocumentFilter): Promise<GetPromptResult> {
+  const prompt = prompts.get(name);
+  if (!prompt) {
+    throw new JsonRpcError(INVALID_PARAMS, `Unknown prompt: ${name}`);
+  }
+  const parsed = z
+    .object(prompt.argsSchema)
+    .strict()
+    .safeParse(args ?? {});
+  if (!parsed.success) {
+    const summary = parsed.error.issues.map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`).join("; ");
+    throw new JsonRpcError(INVALID_PARAMS, `Invalid arguments for prompt ${name}: ${summary}`);
+  }
+  return renderPrompt(prompt, parsed.data, search, canRead);
+}
+
+// Registers every prompt on an McpServer, which validates arguments itself
+export function registerPromptsWithServer(server: McpServer, getSearch: () => Promise<DeepWikiSearch>, canRead: DocumentFilter) {
+  for (const prompt of prompts.values()) {
+    server.registerPrompt(
+      prompt.name,
+      { title: prompt.title, description: prompt.description, argsSchema: prompt.argsSchema },
+      async (args: Record<string, string | undefined>) => renderPrompt(prompt, args, await getSearch(), canRead),
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// MCP protocol revisions this server speaks, and what changes between them.
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { InitializeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"] as const;
+
+export type ProtocolVersion = (typeof SUPPORTED_PROTOCOL_VERSIONS)[number];
+
+export const LATEST_PROTOCOL_VERSION: ProtocolVersion = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// Version assumed for HTTP requests that carry no MCP-Protocol-Version header (per the 2025-06-18 spec)
+export const DEFAULT_PROTOCOL_VERSION: ProtocolVersion = "2025-03-26";
+
+export const PROTOCOL_VERSION_HEADER = "mcp-protocol-version";
+
+export function isSupportedProtocolVersion(version: unknown): version is ProtocolVersion {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version as ProtocolVersion);
+}
+
+/**
+ * Picks the revision to answer `initialize` with: the requested one if we
+ * support it, otherwise the newest supported revision not newer than the
+ * request, falling back to our oldest. Revisions are dates, so they compare
+ * as strings.
+ */
+export function negotiateProtocolVersion(requested: unknown): ProtocolVersion {
+  if (isSupportedProtocolVersion(requested)) {
+    return requested;
+  }
+  if (typeof requested !== "string") {
+    return LATEST_PROTOCOL_VERSION;
+  }
+  return (
+    SUPPORTED_PROTOCOL_VERSIONS.find((version) => version <= requested) ??
+    SUPPORTED_PROTOCOL_VERSIONS[SUPPORTED_PROTOCOL_VERSIONS.length - 1]
+  );
+}
+
+// Tool output schemas and structuredContent were introduced in 2025-06-18
+export function supportsStructuredContent(version: ProtocolVersion): boolean {
+  return version >= "2025-06-18";
+}
+
+/**
+ * Calls `listener` with the revision a server agrees to in `initialize`. The
+ * SDK negotiates it but doesn't expose it, so its own handler is wrapped;
+ * revisions we don't speak (e.g. 2024-10-07) map to the closest one we do.
+ */
+export function observeProtocolVersion(server: Server, listener: (version: ProtocolVersion) => void | Promise<void>) {
+  server.setRequestHandler(InitializeRequestSchema, async (request) => {
+    const result = await server["_oninitialize"](request);
+    await listener(negotiateProtocolVersion(result.protocolVersion));
+    return result;
+  });
+}
@@ -0,0 +1,102 @@
+// Search query syntax. Queries are parsed into terms that are analyzed the
+// same way as the index, never into regular expressions, so any user input is
+// safe to search for.
+//
+//   oauth "access token"          both required (implicit AND)
+//   oauth OR jwt security         (oauth or jwt) and security
+//   deploy -docker -"local dev"   excludes documents matching either
+//   tag:security category:tools   metadata filters, also negatable (-tag:draft)
+//   version:2024-11-25
+
+import type { DeepWikiDocument } from "./deepwiki-data";
+import { analyze } from "./text-analysis";
+
+export type QueryFilterField = "tag" | "category" | "version";
+
+const FILTER_FIELDS = new Set<string>(["tag", "category", "version"]);
+
+// A word or quoted phrase, analyzed into index terms. Clauses with several
+// terms (phrases, or words like "client-side") only match them adjacently.
+export type QueryClause = {
+  text: string;
+  terms: string[];
+};
+
+export type QueryFilter = {
+  field: QueryFilterField;
+  value: string;
+  negated: boolean;
+};
+
+export type ParsedQuery = {
+  // Every group must match; a group matches if any of its OR'ed clauses does
+  groups: QueryClause[][];
+  excluded: QueryClause[];
+  filters: QueryFilter[];
+};
+
+// Optional "-", optional "field:", then a quoted phrase (closing quote optional) or a bare word
+const TOKEN = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export function parseQuery(input: string): ParsedQuery {
+  const query: ParsedQuery = { groups: [], excluded: [], filters: [] };
+  let joinWithPrevious = false;
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [, negation, prefix, phrase, word] = match;
+    const negated = negation === "-";
+    const field = prefix?.toLowerCase();
+
+    if (!negated && !prefix && word === "OR") {
+      joinWithPrevious = query.groups.length > 0;
+      continue;
+    }
+
+    if (field && FILTER_FIELDS.has(field)) {
+      const value = (phrase ?? word ?? "").trim();
+      if (value) {
+        query.filters.push({ field: field as QueryFilterField, value, negated });
+      }
+      joinWithPrevious = false;
+      continue;
+    }
+
+    // Unknown prefixes (e.g. "http:") are ordinary text
+    const text = `${prefix ? `${prefix}:` : ""}${phrase ?? word ?? ""}`;
+    const terms = analyze(text);
+    if (terms.length === 0) {
+      // Only stop-words or punctuation, e.g. "the" or "++"
+      continue;
+    }
+
+    const clause = { text, terms };
+    if (negated) {
+      query.excluded.push(clause);
+    } else if (joinWithPrevious) {
+      query.groups[query.groups.length - 1].push(clause);
+    } else {
+      query.groups.push([clause]);
+    }
+    joinWithPrevious = false;
+  }
+
+  return query;
+}
+
+// Filters compare whole values, ignoring case
+export function matchesFilter(doc: DeepWikiDocument, filter: QueryFilter): boolean {
+  const value = filter.value.toLowerCase();
+  let matches: boolean;
+  switch (filter.field) {
+    case "tag":
+      matches = doc.metadata.tags.some((tag) => tag.toLowerCase() === value);
+      break;
+    case "category":
+      matches = doc.metadata.category.toLowerCase() === value;
+      break;
+    case "version":
+      matches = doc.metadata.version.toLowerCase() === value;
+      break;
+  }
+  return matches !== filter.negated;
+}
@@ -0,0 +1,152 @@
+// MCP resources: documents as deepwiki://docs/{id}, earlier revisions as deepwiki://docs/{id}@{version}
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { DocumentFilter } from "./access";
+import type { DeepWikiDocument, DeepWikiSearch } from "./deepwiki-data";
+import { JsonRpcError } from "./jsonrpc";
+import { paginate } from "./pagination";
+
+// MCP error code for resources/read (and subscribe) of an unknown URI
+export const RESOURCE_NOT_FOUND = -32002;
+
+const DOCUMENT_URI_PREFIX = "deepwiki://docs/";
+
+export const DOCUMENT_URI_TEMPLATE = `${DOCUMENT_URI_PREFIX}{id}`;
+
+const MARKDOWN = "text/markdown";
+
+// IDs are percent-encoded, since repository page IDs contain "/" and ":"
+export function documentUri(id: string): string {
+  return `${DOCUMENT_URI_PREFIX}${encodeURIComponent(id)}`;
+}
+
+// The document ID in a deepwiki://docs/ URI, or null for any other URI
+export function parseDocumentUri(uri: string): string | null {
+  if (!uri.startsWith(DOCUMENT_URI_PREFIX)) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(uri.slice(DOCUMENT_URI_PREFIX.length)) || null;
+  } catch {
+    return null;
+  }
+}
+
+function documentResource(doc: DeepWikiDocument): Resource {
+  return {
+    uri: documentUri(doc.id),
+    name: doc.id,
+    title: doc.title,
+    description: `${doc.metadata.category} documentation, version ${doc.metadata.version}`,
+    mimeType: MARKDOWN,
+  };
+}
+
+export function listResourceTemplates(): { resourceTemplates: ResourceTemplate[] } {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: DOCUMENT_URI_TEMPLATE,
+        name: "document",
+        title: "DeepWiki document",
+        description: "A documentation page by ID, as returned by search, fetch or list_documents. Append @version for an earlier revision.",
+        mimeType: MARKDOWN,
+      },
+    ],
+  };
+}
+
+/**
+ * One page of resources/list: every document the caller can read, in corpus order.
+ */
+export function listResources(
+  search: DeepWikiSearch,
+  cursor: string | undefined,
+  canRead: DocumentFilter,
+): { resources: Resource[]; nextCursor?: string } {
+  const { page, nextCursor } = paginate(search.getAllDocuments().filter(canRead), cursor);
+  return {
+    resources: page.map(documentResource),
+    ...(nextCursor && { nextCursor }),
+  };
+}
+
+// The document behind a resource URI; unknown URIs and documents the caller can't read are a RESOURCE_NOT_FOUND error
+export function resolveResource(search: DeepWikiSearch, uri: string, canRead: DocumentFilter): DeepWikiDocument {
+  const id = parseDocumentUri(uri);
+  const doc = id === null ? null : search.resolveDocument(id);
+  if (!doc || !canRead(doc)) {
+    throw new JsonRpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+  return doc;
+}
+
+export function readResource(search: DeepWikiSearch, uri: string, canRead: DocumentFilter): ReadResourceResult {
+  const doc = resolveResource(search, uri, canRead);
+  return {
+    contents: [{ uri, mimeType: MARKDOWN, text: doc.content }],
+  };
+}
+
+/**
+ * Identifies a version of a document, to tell subscribers when it changed.
+ * A missing document has the empty fingerprint.
+ */
+export async function documentFingerprint(doc: DeepWikiDocument | null): Promise<string> {
+  if (!doc) {
+    return "";
+  }
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(doc)));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Where a session keeps its resources/subscribe state
+export interface ResourceSubscriptions {
+  subscribe(uri: string, doc: DeepWikiDocument): Promise<void>;
+  unsubscribe(uri: string): Promise<void>;
+}
+
+/**
+ * Serves the resource methods on an McpServer, which only generates them for
+ * resources registered one by one. Subscriptions are advertised and accepted
+ * only when the session can deliver notifications/resources/updated.
+ * Must be called before the server connects.
+ */
+export function registerResourcesWithServer(
+  server: McpServer,
+  getSearch: () => Promise<DeepWikiSearch>,
+  canRead: DocumentFilter,
+  subscriptions?: ResourceSubscriptions,
+) {
+  server.server.registerCapabilities({ resources: { subscribe: subscriptions !== undefined } });
+
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+    listResources(await getSearch(), request.params?.cursor, canRead),
+  );
+  server.server.setRequestHandler(ListResourceTemplatesRequestSchema, () => listResourceTemplates());
+  server.server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    readResource(await getSearch(), request.params.uri, canRead),
+  );
+
+  if (subscriptions) {
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      await subscriptions.subscribe(uri, resolveResource(await getSearch(), uri, canRead));
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      await subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+}
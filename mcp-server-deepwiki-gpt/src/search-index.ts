@@ -0,0 +1,357 @@
+// Inverted index and BM25 ranking behind DeepWikiSearch. The index holds
+// document chunks (see chunking.ts), analyzed once when the index is built
+// (tokenized, stop-words dropped, Porter-stemmed), so a query only touches the
+// postings of its own terms.
+
+import { type DocumentChunk, compareChunkIds } from "./chunking";
+import { FuzzyMatcher } from "./fuzzy";
+import { type ParsedQuery, type QueryClause, matchesFilter, parseQuery } from "./query-parser";
+import { analyze, termFor, tokenize } from "./text-analysis";
+
+// Fields scored separately; a hit in a boosted field counts as several content hits
+export type SearchField = "title" | "tags" | "content";
+
+const FIELDS: SearchField[] = ["title", "tags", "content"];
+
+export const DEFAULT_FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  content: 1,
+};
+
+export type BM25Options = {
+  // Term frequency saturation
+  k1?: number;
+  // Length normalization, 0 (none) to 1 (full)
+  b?: number;
+  boosts?: Partial<Record<SearchField, number>>;
+};
+
+export type ScoredChunk = {
+  chunk: DocumentChunk;
+  score: number;
+};
+
+// Typo-corrected terms are OR'ed in for unknown query terms, each weighted by
+// 1 / (1 + edit distance) so exact matches still rank first
+export type ExpandedQuery = {
+  query: ParsedQuery;
+  weights: Map<string, number>;
+};
+
+// How many vocabulary terms an unknown query term expands to
+const MAX_EXPANSIONS = 3;
+
+const WORD = /[a-z0-9]+/gi;
+
+// One term in one chunk. `weight` is the saturated, length-normalized BM25F
+// term frequency, which only depends on the chunk, so it is computed at build time.
+type Posting = {
+  doc: number;
+  weight: number;
+};
+
+// A chunk's title is its document's title plus the section heading; tags are the document's
+function fieldText(chunk: DocumentChunk, field: SearchField): string {
+  switch (field) {
+    case "title":
+      return chunk.heading ? `${chunk.document.title} ${chunk.heading}` : chunk.document.title;
+    case "tags":
+      return [...chunk.document.metadata.tags, chunk.document.metadata.category].join(" ");
+    case "content":
+      return chunk.text;
+  }
+}
+
+/**
+ * BM25F over title, tags (plus category) and content. Per-field term
+ * frequencies are length-normalized, weighted by the field boost and summed
+ * before saturation, so a term repeated across fields can't run away.
+ */
+export class InvertedIndex {
+  private postings = new Map<string, Posting[]>();
+  private positions = new Map<DocumentChunk, number>();
+  // Every word in the corpus and its term. Typos are matched against words,
+  // since a misspelling often stems differently from the word it misspells.
+  private words = new Map<string, string>();
+  private fuzzy: FuzzyMatcher | null = null;
+
+  constructor(
+    private chunks: DocumentChunk[],
+    options: BM25Options = {},
+  ) {
+    const k1 = options.k1 ?? 1.2;
+    const b = options.b ?? 0.75;
+    const boosts = { ...DEFAULT_FIELD_BOOSTS, ...options.boosts };
+    chunks.forEach((chunk, index) => this.positions.set(chunk, index));
+
+    // First pass: per-field term counts and field lengths
+    const lengths: Record<SearchField, number[]> = { title: [], tags: [], content: [] };
+    const counts = chunks.map((chunk, index) => {
+      const termCounts = new Map<string, Record<SearchField, number>>();
+      for (const field of FIELDS) {
+        let length = 0;
+        for (const token of tokenize(fieldText(chunk, field))) {
+          const term = termFor(token);
+          if (!term) {
+            continue;
+          }
+          length++;
+          this.words.set(token, term);
+          let tf = termCounts.get(term);
+          if (!tf) {
+            tf = { title: 0, tags: 0, content: 0 };
+            termCounts.set(term, tf);
+          }
+          tf[field]++;
+        }
+        lengths[field][index] = length;
+      }
+      return termCounts;
+    });
+
+    const averageLengths = {} as Record<SearchField, number>;
+    for (const field of FIELDS) {
+      const total = lengths[field].reduce((sum, length) => sum + length, 0);
+      averageLengths[field] = chunks.length > 0 && total > 0 ? total / chunks.length : 1;
+    }
+
+    // Second pass: postings with their BM25F weights
+    counts.forEach((termCounts, doc) => {
+      for (const [term, tf] of termCounts) {
+        let weightedTf = 0;
+        for (const field of FIELDS) {
+          if (tf[field] > 0) {
+            const normalization = 1 - b + (b * lengths[field][doc]) / averageLengths[field];
+            weightedTf += (boosts[field] * tf[field]) / normalization;
+          }
+        }
+        const posting = { doc, weight: (weightedTf * (k1 + 1)) / (weightedTf + k1) };
+        const list = this.postings.get(term);
+        if (list) {
+          list.push(posting);
+        } else {
+          this.postings.set(term, [posting]);
+        }
+      }
+    });
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+
+  // Number of chunks containing the (already analyzed) term
+  documentFrequency(term: string): number {
+    return this.postings.get(term)?.length ?? 0;
+  }
+
+  /**
+   * Chunks matching the query, best first. Every group of the query must
+   * match; if no chunk has them all (common for natural-language questions),
+   * chunks matching any clause are returned instead. Exclusions and filters
+   * always apply.
+   */
+  search(query: string | ParsedQuery, weights?: Map<string, number>): ScoredChunk[] {
+    const parsed = typeof query === "string" ? parseQuery(query) : query;
+    const clauses = parsed.groups.flat();
+    const { scores, matched } = this.score(
+      clauses.flatMap((clause) => clause.terms),
+      weights,
+    );
+
+    let candidates: number[];
+    if (clauses.length === 0 && parsed.excluded.length === 0 && parsed.filters.length === 0) {
+      // Nothing searchable, e.g. only stop-words
+      return [];
+    } else if (clauses.length === 0) {
+      // Filter-only queries, e.g. "category:tools"
+      candidates = this.chunks.map((_, doc) => doc);
+    } else {
+      const strict = matched.filter((doc) => parsed.groups.every((group) => group.some((clause) => this.matches(doc, clause))));
+      candidates = strict.length > 0 ? strict : matched.filter((doc) => clauses.some((clause) => this.matches(doc, clause)));
+    }
+
+    return candidates
+      .filter(
+        (doc) =>
+          !parsed.excluded.some((clause) => this.matches(doc, clause)) &&
+          parsed.filters.every((filter) => matchesFilter(this.chunks[doc].document, filter)),
+      )
+      .map((doc) => ({ chunk: this.chunks[doc], score: scores[doc] }))
+      .sort((a, b) => b.score - a.score || compareChunkIds(a.chunk, b.chunk));
+  }
+
+  /**
+   * Whether a chunk passes the query's exclusions and filters, for results
+   * found some other way (e.g. by semantic search).
+   */
+  accepts(chunk: DocumentChunk, query: ParsedQuery): boolean {
+    const doc = this.positions.get(chunk);
+    if (doc === undefined) {
+      return false;
+    }
+    return (
+      !query.excluded.some((clause) => this.matches(doc, clause)) && query.filters.every((filter) => matchesFilter(chunk.document, filter))
+    );
+  }
+
+  // Whether a chunk matches any of the clauses (e.g. one group of a query)
+  matchesAny(chunk: DocumentChunk, clauses: QueryClause[]): boolean {
+    const doc = this.positions.get(chunk);
+    return doc !== undefined && clauses.some((clause) => this.matches(doc, clause));
+  }
+
+  /**
+   * Adds typo corrections for query words missing from the index: a missing
+   * word is OR'ed with up to three close vocabulary terms, and a phrase with
+   * a missing word is OR'ed with the phrase using the closest one. The
+   * clauses as written stay in the query (they match nothing, but synonyms
+   * may still apply to them). Exclusions are left as written.
+   */
+  expand(query: ParsedQuery): ExpandedQuery {
+    const weights = new Map<string, number>();
+
+    const groups = query.groups.map((group) => {
+      const expanded: QueryClause[] = [];
+      for (const clause of group) {
+        expanded.push(clause);
+        if (clause.terms.every((term) => this.postings.has(term))) {
+          continue;
+        }
+
+        // Words of the clause, one per term (analyze() drops the same stop-words)
+        const words = tokenize(clause.text).filter((word) => termFor(word));
+        if (clause.terms.length === 1) {
+          for (const correction of this.corrections(words[0]).slice(0, MAX_EXPANSIONS)) {
+            weights.set(correction.term, Math.max(weights.get(correction.term) ?? 0, 1 / (1 + correction.distance)));
+            expanded.push({ text: correction.word, terms: [correction.term] });
+          }
+        } else {
+          const terms = clause.terms.map((term, i) => (this.postings.has(term) ? term : (this.corrections(words[i])[0]?.term ?? term)));
+          if (terms.some((term, i) => term !== clause.terms[i])) {
+            expanded.push({ text: clause.text, terms });
+          }
+        }
+      }
+      return expanded;
+    });
+
+    return { query: { ...query, groups }, weights };
+  }
+
+  /**
+   * The query with each word that isn't in the index replaced by the closest
+   * word that is, or null if there is nothing to correct.
+   */
+  suggest(query: string): string | null {
+    let changed = false;
+    const suggestion = query.replace(WORD, (word, offset: number) => {
+      // Leave filter names ("tag:") and the OR operator alone
+      if (word === "OR" || query[offset + word.length] === ":") {
+        return word;
+      }
+      const term = termFor(word.toLowerCase());
+      if (!term || this.postings.has(term)) {
+        return word;
+      }
+      const best = this.corrections(word.toLowerCase())[0];
+      if (!best) {
+        return word;
+      }
+      changed = true;
+      return best.word;
+    });
+    return changed ? suggestion : null;
+  }
+
+  // Terms of corpus words close to `word`, nearest and then most common first, one entry per term
+  private corrections(word: string | undefined): { word: string; term: string; distance: number }[] {
+    if (!word) {
+      return [];
+    }
+    this.fuzzy ??= new FuzzyMatcher(this.words.keys());
+
+    const byTerm = new Map<string, { word: string; term: string; distance: number }>();
+    for (const match of this.fuzzy.similar(word)) {
+      const term = this.words.get(match.term)!;
+      const current = byTerm.get(term);
+      if (!current || match.distance < current.distance) {
+        byTerm.set(term, { word: match.term, term, distance: match.distance });
+      }
+    }
+    return [...byTerm.values()].sort(
+      (a, b) => a.distance - b.distance || this.documentFrequency(b.term) - this.documentFrequency(a.term) || (a.word < b.word ? -1 : 1),
+    );
+  }
+
+  // BM25 score of every chunk containing at least one of the terms, scaled by their weights (default 1)
+  private score(terms: string[], weights?: Map<string, number>): { scores: Float64Array; matched: number[] } {
+    const scores = new Float64Array(this.chunks.length);
+    const matched: number[] = [];
+
+    for (const term of new Set(terms)) {
+      const postings = this.postings.get(term);
+      if (!postings) {
+        continue;
+      }
+
+      // BM25 idf, kept positive for terms in more than half the corpus
+      const idf = Math.log(1 + (this.chunks.length - postings.length + 0.5) / (postings.length + 0.5)) * (weights?.get(term) ?? 1);
+
+      for (const { doc, weight } of postings) {
+        if (scores[doc] === 0) {
+          matched.push(doc);
+        }
+        scores[doc] += idf * weight;
+      }
+    }
+
+    return { scores, matched };
+  }
+
+  private matches(doc: number, clause: QueryClause): boolean {
+    if (!clause.terms.every((term) => this.contains(term, doc))) {
+      return false;
+    }
+    return clause.terms.length === 1 || containsSequence(this.chunkTerms(doc), clause.terms);
+  }
+
+  // Postings are in chunk order, so membership is a binary search
+  private contains(term: string, doc: number): boolean {
+    const postings = this.postings.get(term);
+    if (!postings) {
+      return false;
+    }
+    let low = 0;
+    let high = postings.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const current = postings[middle].doc;
+      if (current === doc) {
+        return true;
+      }
+      if (current < doc) {
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return false;
+  }
+
+  // Positions aren't indexed; phrases are checked against the few chunks that contain all their terms
+  private chunkTerms(doc: number): string[] {
+    const chunk = this.chunks[doc];
+    return FIELDS.flatMap((field) => analyze(fieldText(chunk, field)));
+  }
+}
+
+function containsSequence(terms: string[], sequence: string[]): boolean {
+  for (let start = 0; start + sequence.length <= terms.length; start++) {
+    if (sequence.every((term, offset) => terms[start + offset] === term)) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,142 @@
+// Query-biased snippets for search results: the densest windows of matching
+// terms in a passage, with the matches highlighted and the fragments joined
+// by ellipses, so a client can tell what matched without fetching.
+
+import { analyze } from "./text-analysis";
+
+export type SnippetOptions = {
+  // Snippet length, not counting highlight markup
+  maxLength?: number;
+  maxFragments?: number;
+  // Markup around each match, e.g. ["<mark>", "</mark>"]
+  highlight?: [string, string];
+};
+
+const ELLIPSIS = "...";
+
+type Hit = {
+  start: number;
+  end: number;
+  term: string;
+};
+
+type Window = {
+  start: number;
+  end: number;
+  score: number;
+};
+
+// Truncates at a word boundary when one is close to the limit
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const truncated = text.substring(0, maxLength);
+  const lastSpace = truncated.lastIndexOf(" ");
+
+  if (lastSpace > maxLength * 0.8) {
+    return truncated.substring(0, lastSpace) + ELLIPSIS;
+  }
+
+  return truncated + ELLIPSIS;
+}
+
+/**
+ * Builds a snippet of `text` around the words that analyze to one of `terms`.
+ * Windows are scored by distinct terms first and total matches second; the
+ * best non-overlapping ones are shown in document order. Without any match
+ * the snippet is the start of the text.
+ */
+export function buildSnippet(text: string, terms: string[], options: SnippetOptions = {}): string {
+  const maxLength = options.maxLength ?? 500;
+  const maxFragments = options.maxFragments ?? 3;
+  const [open, close] = options.highlight ?? ["**", "**"];
+
+  // Plain text: existing Markdown emphasis would collide with the highlight markup.
+  // Only paired markers are emphasis, and __init__ is an identifier rather than bold
+  const flat = text
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/```\w*/g, "")
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, (match, marker: string, inner: string) =>
+      marker === "__" && /^\w+$/.test(inner) ? match : inner,
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+  const wanted = new Set(terms);
+  const hits: Hit[] = [];
+  for (const match of flat.matchAll(/[a-z0-9]+/gi)) {
+    const [term] = analyze(match[0]);
+    if (term && wanted.has(term)) {
+      hits.push({ start: match.index!, end: match.index! + match[0].length, term });
+    }
+  }
+
+  if (hits.length === 0) {
+    return truncateText(flat, maxLength);
+  }
+
+  // Each window starts a little before a hit so the match has some lead-in
+  const windowLength = Math.max(80, Math.floor(maxLength / maxFragments));
+  const candidates: Window[] = hits.map((hit) => {
+    const start = Math.max(0, Math.min(hit.start - Math.floor(windowLength / 4), flat.length - windowLength));
+    const end = Math.min(flat.length, start + windowLength);
+    const inside = hits.filter((other) => other.start >= start && other.end <= end);
+    return { start, end, score: new Set(inside.map((other) => other.term)).size * 10 + inside.length };
+  });
+  candidates.sort((a, b) => b.score - a.score || a.start - b.start);
+
+  const chosen: Window[] = [];
+  for (const candidate of candidates) {
+    if (chosen.length === maxFragments) {
+      break;
+    }
+    if (!chosen.some((other) => candidate.start < other.end && other.start < candidate.end)) {
+      chosen.push(candidate);
+    }
+  }
+  chosen.sort((a, b) => a.start - b.start);
+
+  const fragments = chosen.map((window) => {
+    const { start, end } = snapToWords(flat, window, hits);
+    let fragment = "";
+    let position = start;
+    for (const hit of hits) {
+      if (hit.start >= start && hit.end <= end) {
+        fragment += flat.slice(position, hit.start) + open + flat.slice(hit.start, hit.end) + close;
+        position = hit.end;
+      }
+    }
+    return { start, end, text: fragment + flat.slice(position, end) };
+  });
+
+  const first = fragments[0];
+  const last = fragments[fragments.length - 1];
+  return (
+    (first.start > 0 ? `${ELLIPSIS} ` : "") +
+    fragments.map((fragment) => fragment.text.trim()).join(` ${ELLIPSIS} `) +
+    (last.end < flat.length ? ` ${ELLIPSIS}` : "")
+  );
+}
+
+// Moves window edges inward to whitespace so fragments don't start or end mid-word, without cutting off a hit
+function snapToWords(text: string, window: Window, hits: Hit[]): { start: number; end: number } {
+  const inside = hits.filter((hit) => hit.start >= window.start && hit.end <= window.end);
+  const firstHit = inside[0]?.start ?? window.end;
+  const lastHit = inside[inside.length - 1]?.end ?? window.start;
+
+  let { start, end } = window;
+  if (start > 0 && text[start - 1] !== " ") {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < firstHit) {
+      start = space + 1;
+    }
+  }
+  if (end < text.length && text[end] !== " ") {
+    const space = text.lastIndexOf(" ", end);
+    if (space >= lastHit) {
+      end = space;
+    }
+  }
+  return { start, end };
+}
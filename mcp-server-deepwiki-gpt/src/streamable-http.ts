@@ -0,0 +1,405 @@
+// Streamable HTTP transport (MCP 2025-03-26) for the DeepWikiGptMCP Durable Object.
+//
+// The Worker half (serveStreamableHttp) validates requests, creates and looks up
+// sessions, and hands each request to the session's Durable Object. The Durable
+// Object half (StreamableHttpSessionTransport) is an MCP SDK Transport that answers
+// POSTs with an SSE stream, keeps a standalone GET stream for server-initiated
+// messages, and logs every outgoing event in SQLite so clients can resume with
+// Last-Event-ID.
+
+import type { Transport, TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  InitializeRequestSchema,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessageSchema,
+  type JSONRPCMessage,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { McpAgent } from "agents/mcp";
+import { isSupportedProtocolVersion, PROTOCOL_VERSION_HEADER, SUPPORTED_PROTOCOL_VERSIONS } from "./protocol";
+import type { Props } from "./utils";
+
+export const MCP_SESSION_HEADER = "mcp-session-id";
+
+// Internal path the Worker uses when handing a validated request to the session's Durable Object
+export const STREAMABLE_HTTP_SESSION_PATH = "/streamable-http-session";
+
+// Internal header carrying the caller's GitHub login so the Durable Object can reject foreign sessions
+export const MCP_LOGIN_HEADER = "x-mcp-login";
+
+// Stream ID of the GET stream used for server-initiated messages
+const STANDALONE_STREAM_ID = "standalone";
+
+const MAXIMUM_MESSAGE_SIZE_BYTES = 4 * 1024 * 1024;
+
+// Newest events kept in mcp_events per session. The standalone stream never
+// completes and abandoned POST streams are never resumed, so older events are
+// dropped even if undelivered.
+const MAX_STORED_EVENTS = 1000;
+
+const encoder = new TextEncoder();
+
+type SessionNamespace = DurableObjectNamespace<McpAgent<Env, unknown, Props>>;
+
+function jsonRpcError(status: number, code: number, message: string, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function sessionStub(namespace: SessionNamespace, sessionId: string) {
+  return namespace.get(namespace.idFromName(`mcp:${sessionId}`));
+}
+
+/**
+ * Serves the Streamable HTTP transport at `path`, backed by the McpAgent bound as `binding`.
+ *
+ * POST carries client messages, GET opens a stream for server-initiated messages
+ * (or resumes one with Last-Event-ID), DELETE ends the session.
+ */
+export function serveStreamableHttp(path: string, { binding = "MCP_OBJECT" }: { binding?: string } = {}) {
+  return {
+    async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+      const url = new URL(request.url);
+      if (url.pathname !== path) {
+        return new Response("Not Found", { status: 404 });
+      }
+
+      const namespace = (env as unknown as Record<string, SessionNamespace>)[binding];
+      if (!namespace) {
+        console.error(`Could not find McpAgent binding for ${binding}`);
+        return new Response("Invalid binding", { status: 500 });
+      }
+
+      const protocolVersion = request.headers.get(PROTOCOL_VERSION_HEADER);
+      if (protocolVersion !== null && !isSupportedProtocolVersion(protocolVersion)) {
+        return jsonRpcError(
+          400,
+          -32000,
+          `Bad Request: Unsupported protocol version ${protocolVersion} (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")})`,
+        );
+      }
+
+      const props = ctx.props as Props;
+
+      switch (request.method) {
+        case "POST":
+          return handlePost(request, namespace, props);
+        case "GET": {
+          const accept = request.headers.get("accept") ?? "";
+          if (!accept.includes("text/event-stream")) {
+            return jsonRpcError(406, -32000, "Not Acceptable: Client must accept text/event-stream");
+          }
+          return forwardToSession(request, namespace, props);
+        }
+        case "DELETE":
+          return forwardToSession(request, namespace, props);
+        default:
+          return jsonRpcError(405, -32000, "Method not allowed", { Allow: "GET, POST, DELETE" });
+      }
+    },
+  };
+}
+
+async function handlePost(request: Request, namespace: SessionNamespace, props: Props): Promise<Response> {
+  const accept = request.headers.get("accept") ?? "";
+  if (!accept.includes("application/json") || !accept.includes("text/event-stream")) {
+    return jsonRpcError(406, -32000, "Not Acceptable: Client must accept both application/json and text/event-stream");
+  }
+
+  const contentType = request.headers.get("content-type");
+  if (!contentType || !contentType.includes("application/json")) {
+    return jsonRpcError(415, -32000, "Unsupported Media Type: Content-Type must be application/json");
+  }
+
+  const contentLength = Number.parseInt(request.headers.get("content-length") ?? "0", 10);
+  if (contentLength > MAXIMUM_MESSAGE_SIZE_BYTES) {
+    return jsonRpcError(413, -32000, `Request body too large. Maximum size is ${MAXIMUM_MESSAGE_SIZE_BYTES} bytes`);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonRpcError(400, -32700, "Parse error: Invalid JSON");
+  }
+
+  const batch = Array.isArray(body) ? body : [body];
+  if (batch.length === 0 || !batch.every((message) => JSONRPCMessageSchema.safeParse(message).success)) {
+    return jsonRpcError(400, -32600, "Invalid Request: Body must be a JSON-RPC message or batch");
+  }
+  const messages = batch as JSONRPCMessage[];
+
+  const isInitializationRequest = messages.some((message) => InitializeRequestSchema.safeParse(message).success);
+  if (!isInitializationRequest) {
+    return forwardToSession(request, namespace, props, JSON.stringify(messages));
+  }
+
+  if (request.headers.get(MCP_SESSION_HEADER)) {
+    return jsonRpcError(400, -32600, "Invalid Request: Initialization requests must not include a session ID");
+  }
+  if (messages.length > 1) {
+    return jsonRpcError(400, -32600, "Invalid Request: Only one initialization request is allowed");
+  }
+
+  const sessionId = crypto.randomUUID();
+  const stub = sessionStub(namespace, sessionId);
+  await stub._init(props);
+  await stub.setInitialized();
+
+  return stub.fetch(sessionRequest(request, sessionId, props, JSON.stringify(messages)));
+}
+
+async function forwardToSession(request: Request, namespace: SessionNamespace, props: Props, body?: string): Promise<Response> {
+  const sessionId = request.headers.get(MCP_SESSION_HEADER);
+  if (!sessionId) {
+    return jsonRpcError(400, -32000, "Bad Request: Mcp-Session-Id header is required");
+  }
+
+  const stub = sessionStub(namespace, sessionId);
+  if (!(await stub.isInitialized())) {
+    return jsonRpcError(404, -32001, "Session not found");
+  }
+
+  return stub.fetch(sessionRequest(request, sessionId, props, body));
+}
+
+function sessionRequest(request: Request, sessionId: string, props: Props, body?: string): Request {
+  const headers = new Headers({
+    [MCP_SESSION_HEADER]: sessionId,
+    [MCP_LOGIN_HEADER]: props.login,
+  });
+  const lastEventId = request.headers.get("last-event-id");
+  if (lastEventId) {
+    headers.set("last-event-id", lastEventId);
+  }
+
+  return new Request(new URL(STREAMABLE_HTTP_SESSION_PATH, request.url), {
+    method: request.method,
+    headers,
+    body,
+  });
+}
+
+/**
+ * MCP SDK transport living inside a session's Durable Object.
+ *
+ * Responses are written to the SSE stream of the POST that carried the request;
+ * requests and notifications not tied to a client request go to the standalone
+ * GET stream. Every outgoing message is stored in `mcp_events` first, so a client
+ * that lost its connection can replay from its Last-Event-ID. A POST stream's
+ * events are deleted once it has delivered every response, either live or by a
+ * replay; only the newest MAX_STORED_EVENTS are kept in any case.
+ */
+export class StreamableHttpSessionTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private started = false;
+  private streams = new Map<string, WritableStreamDefaultWriter<Uint8Array>>();
+  private requestStreams = new Map<RequestId, string>();
+  private pendingRequests = new Map<string, Set<RequestId>>();
+
+  constructor(
+    private sql: SqlStorage,
+    readonly sessionId: string,
+  ) {
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS mcp_events (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      stream_id TEXT NOT NULL,
+      message TEXT NOT NULL
+    )`);
+  }
+
+  async start(): Promise<void> {
+    if (this.started) {
+      throw new Error("Transport already started");
+    }
+    this.started = true;
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (!this.started) {
+      throw new Error("Transport not started");
+    }
+
+    const isResponse = isJSONRPCResponse(message) || isJSONRPCError(message);
+    const relatedRequestId = isResponse ? message.id : options?.relatedRequestId;
+    const streamId = (relatedRequestId !== undefined && this.requestStreams.get(relatedRequestId)) || STANDALONE_STREAM_ID;
+
+    const seq = this.storeEvent(streamId, message);
+    await this.writeEvent(streamId, `${streamId}_${seq}`, JSON.stringify(message));
+
+    if (isResponse) {
+      this.requestStreams.delete(message.id);
+      const pending = this.pendingRequests.get(streamId);
+      pending?.delete(message.id);
+      if (pending && pending.size === 0) {
+        this.pendingRequests.delete(streamId);
+        // A live connection got every event (any missed ones were replayed when it connected)
+        if (this.streams.has(streamId)) {
+          this.deleteEvents(streamId);
+        }
+        await this.closeStream(streamId);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const streamId of [...this.streams.keys()]) {
+      await this.closeStream(streamId);
+    }
+    this.requestStreams.clear();
+    this.pendingRequests.clear();
+    this.onclose?.();
+  }
+
+  // Whether the client has the GET stream open, so server-initiated notifications reach it
+  get listening(): boolean {
+    return this.streams.has(STANDALONE_STREAM_ID);
+  }
+
+  /**
+   * Handles a request forwarded by serveStreamableHttp. DELETE is handled by the
+   * Durable Object itself since it also has to drop the session's storage.
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    if (request.method === "GET") {
+      const lastEventId = request.headers.get("last-event-id");
+      if (lastEventId) {
+        return this.resumeStream(lastEventId);
+      }
+      if (this.streams.has(STANDALONE_STREAM_ID)) {
+        return jsonRpcError(409, -32000, "Conflict: Only one SSE stream is allowed per session");
+      }
+      return this.openStream(STANDALONE_STREAM_ID, [], true);
+    }
+
+    const messages = (await request.json()) as JSONRPCMessage[];
+    const requests = messages.filter(isJSONRPCRequest);
+
+    // Notifications and responses only: acknowledge without a stream
+    if (requests.length === 0) {
+      for (const message of messages) {
+        this.onmessage?.(message);
+      }
+      return new Response(null, { status: 202, headers: this.responseHeaders() });
+    }
+
+    const streamId = crypto.randomUUID();
+    this.pendingRequests.set(streamId, new Set(requests.map((message) => message.id)));
+    for (const message of requests) {
+      this.requestStreams.set(message.id, streamId);
+    }
+
+    const response = this.openStream(streamId, [], true);
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+    return response;
+  }
+
+  private resumeStream(lastEventId: string): Response {
+    const separator = lastEventId.lastIndexOf("_");
+    const streamId = lastEventId.slice(0, separator);
+    const seq = Number(lastEventId.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(seq)) {
+      return jsonRpcError(400, -32000, "Bad Request: Invalid Last-Event-ID");
+    }
+
+    const missed = this.sql
+      .exec<{
+        seq: number;
+        message: string;
+      }>("SELECT seq, message FROM mcp_events WHERE stream_id = ? AND seq > ? ORDER BY seq", streamId, seq)
+      .toArray();
+
+    // Keep the stream open if more messages can still arrive on it; otherwise this
+    // replay delivers the rest of the stream and its events are no longer needed
+    const keepOpen = streamId === STANDALONE_STREAM_ID || this.pendingRequests.has(streamId);
+    if (!keepOpen) {
+      this.deleteEvents(streamId);
+    }
+    return this.openStream(streamId, missed, keepOpen);
+  }
+
+  private openStream(streamId: string, replay: { seq: number; message: string }[], keepOpen: boolean): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+
+    // A reconnecting client replaces its previous connection for the same stream
+    const previous = this.streams.get(streamId);
+    this.streams.delete(streamId);
+    previous?.close().catch(() => {});
+
+    if (keepOpen) {
+      this.streams.set(streamId, writer);
+    }
+    for (const event of replay) {
+      writer.write(formatEvent(`${streamId}_${event.seq}`, event.message)).catch(() => {});
+    }
+    if (!keepOpen) {
+      writer.close().catch(() => {});
+    }
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        ...this.responseHeaders(),
+      },
+    });
+  }
+
+  private storeEvent(streamId: string, message: JSONRPCMessage): number {
+    const { seq } = this.sql
+      .exec<{ seq: number }>("INSERT INTO mcp_events (stream_id, message) VALUES (?, ?) RETURNING seq", streamId, JSON.stringify(message))
+      .one();
+    this.sql.exec("DELETE FROM mcp_events WHERE seq <= ?", seq - MAX_STORED_EVENTS);
+    return seq;
+  }
+
+  private deleteEvents(streamId: string) {
+    this.sql.exec("DELETE FROM mcp_events WHERE stream_id = ?", streamId);
+  }
+
+  private async writeEvent(streamId: string, eventId: string, data: string) {
+    const writer = this.streams.get(streamId);
+    if (!writer) {
+      // Nobody is listening; the event stays in mcp_events for a later resume
+      return;
+    }
+    try {
+      await writer.write(formatEvent(eventId, data));
+    } catch (error) {
+      console.error(`Failed to write to stream ${streamId}:`, error);
+      this.streams.delete(streamId);
+    }
+  }
+
+  private async closeStream(streamId: string) {
+    const writer = this.streams.get(streamId);
+    this.streams.delete(streamId);
+    try {
+      await writer?.close();
+    } catch {
+      // Client already disconnected
+    }
+  }
+
+  private responseHeaders(): Record<string, string> {
+    return {
+      [MCP_SESSION_HEADER]: this.sessionId,
+      "Access-Control-Expose-Headers": MCP_SESSION_HEADER,
+    };
+  }
+}
+
+function formatEvent(eventId: string, data: string): Uint8Array {
+  return encoder.encode(`id: ${eventId}\nevent: message\ndata: ${data}\n\n`);
+}
@@ -0,0 +1,121 @@
+// Synonyms and acronyms for domain terms, so "SSE" finds "server-sent events"
+// and "jsonrpc" finds "JSON-RPC". Each entry of the dictionary is a set of
+// interchangeable words or phrases; a query word (or run of words) matching
+// one of them also matches the others, weighted below the literal words.
+//
+// The dictionary can be replaced through the document store (see
+// document-store.ts) as a JSON array of arrays of strings.
+
+import { z } from "zod";
+import type { QueryClause } from "./query-parser";
+import type { ExpandedQuery } from "./search-index";
+import { analyze, termFor, tokenize } from "./text-analysis";
+
+export const synonymDictionarySchema = z.array(z.array(z.string().min(1)).min(2));
+
+export type SynonymEntries = z.infer<typeof synonymDictionarySchema>;
+
+// Weight of a synonym relative to the query word it was expanded from
+export const SYNONYM_WEIGHT = 0.5;
+
+export const DEFAULT_SYNONYMS: SynonymEntries = [
+  ["mcp", "model context protocol"],
+  ["sse", "server-sent events"],
+  ["json-rpc", "jsonrpc"],
+  ["auth", "oauth", "authentication", "authorization"],
+  ["stdio", "standard input/output"],
+  ["llm", "large language model"],
+  ["sdk", "software development kit"],
+  ["api", "application programming interface"],
+];
+
+// Stems that are common words of their own: "authorization" stems to "author"
+const AMBIGUOUS_STEMS = new Set(["author", "organ"]);
+
+export class SynonymDictionary {
+  // Each entry's phrases with their index terms, e.g. "server-sent events" -> ["server", "sent", "event"]
+  private entries: QueryClause[][];
+
+  constructor(entries: SynonymEntries = DEFAULT_SYNONYMS) {
+    this.entries = entries
+      .map((phrases) => phrases.map((text) => ({ text, terms: analyze(text) })).filter((phrase) => phrase.terms.length > 0))
+      .filter((phrases) => phrases.length > 1);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * OR's synonyms into the query. A phrase may span consecutive groups
+   * ("server sent events" unquoted); its synonyms then join each of those
+   * groups, which keeps the query's meaning since a synonym stands for the
+   * whole phrase. Synonym terms are weighted SYNONYM_WEIGHT times the words
+   * they replace, and never lower a term the query already has.
+   */
+  expand({ query, weights }: ExpandedQuery): ExpandedQuery {
+    const literal = new Set(query.groups.flat().flatMap((clause) => clause.terms));
+    const groups = query.groups.map((group) => [...group]);
+    const expandedWeights = new Map(weights);
+
+    for (let start = 0; start < query.groups.length; start++) {
+      for (const phrases of this.entries) {
+        for (const phrase of phrases) {
+          const span = matchSpan(query.groups, start, matchTerms(phrase));
+          if (span === 0) {
+            continue;
+          }
+          const weight = SYNONYM_WEIGHT * Math.min(...phrase.terms.map((term) => weights.get(term) ?? 1));
+          for (const synonym of phrases) {
+            // A synonym that would search for an ambiguous stem would match unrelated words
+            if (synonym === phrase || !sameTerms(matchTerms(synonym), synonym.terms)) {
+              continue;
+            }
+            for (let group = start; group < start + span; group++) {
+              if (!groups[group].some((clause) => sameTerms(clause.terms, synonym.terms))) {
+                groups[group].push(synonym);
+              }
+            }
+            for (const term of synonym.terms) {
+              if (!literal.has(term)) {
+                expandedWeights.set(term, Math.max(expandedWeights.get(term) ?? 0, weight));
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return { query: { ...query, groups }, weights: expandedWeights };
+  }
+}
+
+// How many groups from `start` spell out the phrase with one clause each, or 0 if they don't
+function matchSpan(groups: QueryClause[][], start: number, phrase: string[]): number {
+  let position = 0;
+  let group = start;
+  while (position < phrase.length) {
+    const clause = groups[group]?.find((candidate) =>
+      sameTerms(matchTerms(candidate), phrase.slice(position, position + candidate.terms.length)),
+    );
+    if (!clause) {
+      return 0;
+    }
+    position += clause.terms.length;
+    group++;
+  }
+  return group - start;
+}
+
+// A clause's terms for matching phrases, with words that stem to an ambiguous stem as written
+function matchTerms(clause: QueryClause): string[] {
+  if (!clause.terms.some((term) => AMBIGUOUS_STEMS.has(term))) {
+    return clause.terms;
+  }
+  const words = tokenize(clause.text).filter((word) => termFor(word));
+  return clause.terms.map((term, i) => (AMBIGUOUS_STEMS.has(term) && words[i] ? words[i] : term));
+}
+
+function sameTerms(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((term, i) => term === b[i]);
+}
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { citedSources, createAnswerGenerator, ExtractiveAnswerGenerator } from "../answers";
+import { chunkTitle } from "../chunking";
+import { documentUrl } from "../deepwiki-data";
+import { ensureRepositoryIndexed, gitHubWikiOptions, repoNameSchema, repositoryAccess, repositoryDocumentPrefix } from "../github-wiki";
+import { defineTool } from "./registry";
+
+const MAX_PASSAGES = 5;
+const PASSAGE_LENGTH = 1200;
+
+// Below this share of the question's words found in the passages, the question is declined rather than answered
+const MIN_COVERAGE = 0.5;
+
+const NO_ANSWER = "The documentation doesn't appear to answer this question. Try rephrasing it, or use search to look for related pages.";
+
+// Ask tool: an answer grounded in the passages most relevant to a question, with citations
+export const askQuestionTool = defineTool({
+  name: "ask_question",
+  title: "Ask Question",
+  description:
+    "Answers a question from the documentation, or from a GitHub repository's README, docs/ Markdown and wiki pages, citing the passages it is based on. Declines when the documentation doesn't cover the question. Use fetch with a citation ID to read more.",
+  inputSchema: {
+    question: z.string().min(1, "question must not be empty").describe("Question to answer."),
+    repoName: repoNameSchema.optional().describe("GitHub repository (owner/repo) to answer from instead of the DeepWiki documentation."),
+  },
+  outputSchema: {
+    question: z.string(),
+    repoName: z.string().optional(),
+    answered: z.boolean().describe("False when the documentation doesn't cover the question."),
+    answer: z.string(),
+    confidence: z.number().describe("Share of the question's words found in the retrieved passages, from 0 to 1."),
+    citations: z.array(
+      z.object({
+        number: z.number().describe("The [n] marker citing this passage in the answer."),
+        id: z.string(),
+        title: z.string(),
+        url: z.string(),
+      }),
+    ),
+  },
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async ({ question, repoName }, { search, props, env, canRead }) => {
+    console.log(`DeepWiki question${repoName ? ` for ${repoName}` : ""}: ${question}`);
+
+    let filter = canRead;
+    if (repoName) {
+      // Throws unless the caller can read the repository, so its private pages are theirs to see
+      await ensureRepositoryIndexed(search, repoName, gitHubWikiOptions(env, props.accessToken));
+      const prefix = repositoryDocumentPrefix(repoName);
+      const access = repositoryAccess(repoName);
+      filter = (doc) => doc.id.startsWith(prefix) && (doc.metadata.access === access || canRead(doc));
+    }
+    const { passages } = await search.searchPassages(question, { filter, perDocument: MAX_PASSAGES, limit: MAX_PASSAGES });
+    const confidence = search.coverage(question, passages, filter);
+
+    let answer: string | null = null;
+    if (passages.length > 0 && confidence >= MIN_COVERAGE) {
+      const sources = passages.map((chunk) => ({ title: chunkTitle(chunk), text: chunk.text.slice(0, PASSAGE_LENGTH) }));
+      const generator = createAnswerGenerator(env);
+      try {
+        answer = await generator.answer(question, sources);
+      } catch (error) {
+        // A quoted answer beats none if the model is unavailable
+        console.error(`DeepWiki answer generation with ${generator.name} failed, using extractive answer:`, error);
+        answer = await new ExtractiveAnswerGenerator().answer(question, sources);
+      }
+    }
+
+    // Cite what the answer cites; an answer without citation markers is based on every passage
+    let cited = answer ? citedSources(answer, passages.length) : [];
+    if (answer && cited.length === 0) {
+      cited = passages.map((_, i) => i + 1);
+    }
+    const citations = cited.map((number) => {
+      const chunk = passages[number - 1];
+      return { number, id: chunk.id, title: chunkTitle(chunk), url: documentUrl(chunk.document) };
+    });
+
+    const result = {
+      question,
+      ...(repoName && { repoName }),
+      answered: answer !== null,
+      answer: answer ?? NO_ANSWER,
+      confidence: Math.round(confidence * 100) / 100,
+      citations,
+    };
+
+    console.log(`DeepWiki ${result.answered ? "answered" : "declined"} question with confidence ${result.confidence}: ${question}`);
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  },
+});
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { revisionId } from "../deepwiki-data";
+import { unifiedDiff } from "../diff";
+import { defineTool } from "./registry";
+
+// Diff tool: what changed in a document between two of its stored versions
+export const diffVersionsTool = defineTool({
+  name: "diff_versions",
+  title: "Diff Document Versions",
+  description:
+    "Shows what changed in a document between two of its versions, as a unified diff of the Markdown content. Defaults to the latest version against the one before it. fetch lists a document's versions.",
+  inputSchema: {
+    id: z.string().min(1, "id must not be empty").describe("ID of the document, as returned by search or fetch."),
+    from: z.string().min(1).optional().describe("Older version to diff from (default: the version before `to`)."),
+    to: z.string().min(1).optional().describe("Newer version to diff to (default: the latest version)."),
+  },
+  outputSchema: {
+    id: z.string(),
+    from: z.string(),
+    to: z.string(),
+    diff: z.string().describe("Unified diff from one version to the other; empty if the content is identical."),
+    additions: z.number(),
+    deletions: z.number(),
+  },
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: ({ id, from, to }, { search, canRead }) => {
+    console.log(`DeepWiki diff request for ID: ${id}${from ? ` from ${from}` : ""}${to ? ` to ${to}` : ""}`);
+
+    const revisions = search.getRevisions(id).filter(canRead);
+    if (revisions.length === 0) {
+      throw new Error(`Document with ID ${id} not found`);
+    }
+    const versions = revisions.map((revision) => revision.metadata.version);
+    const unknown = [from, to].find((version) => version !== undefined && !versions.includes(version));
+    if (unknown !== undefined) {
+      throw new Error(`Document ${id} has no version ${unknown}; its versions are ${versions.join(", ")}`);
+    }
+
+    const newer = to === undefined ? revisions.length - 1 : versions.indexOf(to);
+    const older = from === undefined ? newer - 1 : versions.indexOf(from);
+    if (older < 0) {
+      throw new Error(`Document ${id} has no version before ${versions[newer]} to diff against`);
+    }
+    if (older >= newer) {
+      throw new Error(`Version ${versions[older]} of ${id} is not older than ${versions[newer]}; from must be an earlier version than to`);
+    }
+
+    const oldDoc = revisions[older];
+    const newDoc = revisions[newer];
+    const { diff, additions, deletions } = unifiedDiff(oldDoc.content, newDoc.content, {
+      fromFile: `a/${revisionId(oldDoc)}`,
+      toFile: `b/${revisionId(newDoc)}`,
+    });
+    const result = { id, from: oldDoc.metadata.version, to: newDoc.metadata.version, diff, additions, deletions };
+
+    console.log(`DeepWiki diffed ${id} from ${result.from} to ${result.to}: +${additions} -${deletions}`);
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  },
+});
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { chunkTitle } from "../chunking";
+import { type DeepWikiDocument, documentUrl } from "../deepwiki-data";
+import { canReadRepositoryDocument, gitHubWikiOptions } from "../github-wiki";
+import { defineTool } from "./registry";
+
+// Fetch tool: full document or section content in ChatGPT's fetch result format
+export const fetchTool = defineTool({
+  name: "fetch",
+  description:
+    "Retrieves detailed content for a specific resource identified by the given ID: a whole document (mcp-tools) or one of its sections (mcp-tools#best-practices), as returned by search. Documents default to their latest version; append @version (mcp-tools@2024-11-05) for an earlier one.",
+  inputSchema: {
+    id: z.string().min(1, "id must not be empty").describe("ID of the document or section to fetch, optionally with @version."),
+  },
+  outputSchema: {
+    id: z.string(),
+    title: z.string(),
+    text: z.string(),
+    url: z.string(),
+    metadata: z.object({
+      version: z.string(),
+      category: z.string(),
+      tags: z.string(),
+      last_updated: z.string().optional().describe("When this version was written to the store, if known."),
+      versions: z.string().describe("Every stored version of the document, newest first."),
+      document_id: z.string().optional(),
+      section: z.string().optional(),
+    }),
+  },
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async ({ id }, { search, props, env, canRead }) => {
+    console.log(`DeepWiki fetch request for ID: ${id}`);
+
+    // Pages of private repositories are readable by whoever can read the repository on GitHub
+    const options = gitHubWikiOptions(env, props.accessToken);
+    const readable = async (doc: DeepWikiDocument) => canRead(doc) || (await canReadRepositoryDocument(doc, options));
+
+    // Documents the caller can't read are reported as missing, so their IDs don't leak
+    const resolved = search.resolveDocument(id);
+    const document = resolved && (await readable(resolved)) ? resolved : null;
+    const found = document ? null : search.getChunk(id);
+    const chunk = found && (await readable(found.document)) ? found : null;
+
+    if (!document && !chunk) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                id,
+                title: "Error",
+                text: `Document with ID ${id} not found`,
+                url: null,
+                metadata: { error: "true" },
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // A section is returned like a document, with a pointer back to its document
+    const source = document ?? chunk!.document;
+
+    // Return document in MCP content format with ChatGPT-compatible structure
+    const docResult = {
+      id,
+      title: chunk ? chunkTitle(chunk) : source.title,
+      text: chunk ? chunk.text : source.content,
+      url: documentUrl(source),
+      metadata: {
+        version: source.metadata.version,
+        category: source.metadata.category,
+        tags: source.metadata.tags.join(", "),
+        ...(source.metadata.updatedAt && { last_updated: source.metadata.updatedAt }),
+        versions: search
+          .getRevisions(source.id)
+          .filter((revision) => revision === source || canRead(revision))
+          .map((revision) => revision.metadata.version)
+          .reverse()
+          .join(", "),
+        ...(chunk && { document_id: source.id, section: chunk.heading ?? "Introduction" }),
+      },
+    };
+
+    console.log(`DeepWiki successfully fetched ${chunk ? "section" : "document"}: ${docResult.title}`);
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(docResult, null, 2) }],
+      structuredContent: docResult,
+    };
+  },
+});
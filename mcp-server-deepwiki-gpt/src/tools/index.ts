@@ -0,0 +1,21 @@
+import { askQuestionTool } from "./ask-question";
+import { diffVersionsTool } from "./diff-versions";
+import { fetchTool } from "./fetch";
+import { listDocumentsTool } from "./list-documents";
+import { readWikiContentsTool } from "./read-wiki-contents";
+import { readWikiStructureTool } from "./read-wiki-structure";
+import { ToolRegistry } from "./registry";
+import { searchTool } from "./search";
+
+export { defineTool, ToolRegistry, type ToolContext, type ToolDefinition } from "./registry";
+
+// Tools exposed by this server, in tools/list order. New tools get their own
+// module under src/tools/ and are registered here.
+export const toolRegistry = new ToolRegistry()
+  .register(searchTool)
+  .register(fetchTool)
+  .register(diffVersionsTool)
+  .register(listDocumentsTool)
+  .register(readWikiStructureTool)
+  .register(readWikiContentsTool)
+  .register(askQuestionTool);
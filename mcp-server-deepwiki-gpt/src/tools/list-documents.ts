@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { countFacets, documentUrl } from "../deepwiki-data";
+import { defineTool } from "./registry";
+
+// Browse tool: the categories of the corpus, or the documents in one category
+export const listDocumentsTool = defineTool({
+  name: "list_documents",
+  title: "List Documents",
+  description:
+    "Browses the documentation without a query. Without a category, lists every category with its number of documents; with a category, lists the documents in it. Use the returned IDs with fetch.",
+  inputSchema: {
+    category: z.string().min(1).optional().describe("Category to list the documents of, as returned without one."),
+  },
+  outputSchema: {
+    total: z.number().describe("Number of documents listed, or in the corpus when listing categories."),
+    categories: z
+      .array(
+        z.object({
+          value: z.string(),
+          count: z.number(),
+        }),
+      )
+      .optional(),
+    category: z.string().optional(),
+    documents: z
+      .array(
+        z.object({
+          id: z.string(),
+          title: z.string(),
+          version: z.string(),
+          tags: z.array(z.string()),
+          url: z.string(),
+        }),
+      )
+      .optional(),
+  },
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: ({ category }, { search, canRead }) => {
+    console.log(`DeepWiki list documents request${category ? ` for category: ${category}` : ""}`);
+
+    let listing;
+    if (category === undefined) {
+      const documents = search.getAllDocuments().filter(canRead);
+      listing = { total: documents.length, categories: countFacets(documents).category };
+    } else {
+      // Categories match case-insensitively, like the category: search filter
+      const name = search.getCategories().find((candidate) => candidate.toLowerCase() === category.toLowerCase());
+      const documents = (name === undefined ? [] : search.getDocumentsByCategory(name).filter(canRead)).sort((a, b) =>
+        a.title < b.title ? -1 : a.title > b.title ? 1 : 0,
+      );
+      if (documents.length === 0) {
+        throw new Error(`No documents in category ${category}; call list_documents without a category to see the categories`);
+      }
+      listing = {
+        total: documents.length,
+        category: name!,
+        documents: documents.map((doc) => ({
+          id: doc.id,
+          title: doc.title,
+          version: doc.metadata.version,
+          tags: doc.metadata.tags,
+          url: documentUrl(doc),
+        })),
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(listing, null, 2) }],
+      structuredContent: listing,
+    };
+  },
+});
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { ensureRepositoryIndexed, gitHubWikiOptions, repoNameSchema } from "../github-wiki";
+import { defineTool } from "./registry";
+
+// Wiki contents tool: every indexed page of a GitHub repository, in full
+export const readWikiContentsTool = defineTool({
+  name: "read_wiki_contents",
+  title: "Read Wiki Contents",
+  description: "Returns the full text of a GitHub repository's documentation: its README, docs/ Markdown and wiki pages.",
+  inputSchema: {
+    repoName: repoNameSchema,
+  },
+  outputSchema: {
+    repoName: z.string(),
+    pages: z.array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        text: z.string(),
+      }),
+    ),
+  },
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async ({ repoName }, { search, props, env }) => {
+    console.log(`DeepWiki wiki contents request for ${repoName}`);
+
+    const documents = await ensureRepositoryIndexed(search, repoName, gitHubWikiOptions(env, props.accessToken));
+    const pages = documents.map((doc) => ({ id: doc.id, title: doc.title, text: doc.content }));
+
+    // One Markdown text block reads better for the model than escaped JSON
+    const text = pages.map((page) => `<!-- ${page.id} -->\n${page.text}`).join("\n\n---\n\n");
+
+    return {
+      content: [{ type: "text", text: text || `No documentation found for ${repoName}` }],
+      structuredContent: { repoName, pages },
+    };
+  },
+});
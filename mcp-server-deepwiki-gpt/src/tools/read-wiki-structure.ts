@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { documentUrl } from "../deepwiki-data";
+import { ensureRepositoryIndexed, gitHubWikiOptions, repoNameSchema } from "../github-wiki";
+import { defineTool } from "./registry";
+
+// Wiki structure tool: the pages indexed for a GitHub repository, without their contents
+export const readWikiStructureTool = defineTool({
+  name: "read_wiki_structure",
+  title: "Read Wiki Structure",
+  description:
+    "Lists the documentation pages (README, docs/ Markdown and wiki pages) of a GitHub repository. Use the returned IDs with fetch or read_wiki_contents.",
+  inputSchema: {
+    repoName: repoNameSchema,
+  },
+  outputSchema: {
+    repoName: z.string(),
+    pages: z.array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        category: z.string(),
+        url: z.string(),
+      }),
+    ),
+  },
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async ({ repoName }, { search, props, env }) => {
+    console.log(`DeepWiki wiki structure request for ${repoName}`);
+
+    const documents = await ensureRepositoryIndexed(search, repoName, gitHubWikiOptions(env, props.accessToken));
+    const structure = {
+      repoName,
+      pages: documents.map((doc) => ({
+        id: doc.id,
+        title: doc.title,
+        category: doc.metadata.category,
+        url: documentUrl(doc),
+      })),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(structure, null, 2) }],
+      structuredContent: structure,
+    };
+  },
+});
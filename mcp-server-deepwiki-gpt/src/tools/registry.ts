@@ -0,0 +1,168 @@
+// Tool registry: tools/list and tools/call for the tool modules under src/tools/
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CallToolRequestSchema,
+  type CallToolResult,
+  ListToolsRequestSchema,
+  type Tool,
+  type ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { DocumentFilter } from "../access";
+import type { DeepWikiSearch } from "../deepwiki-data";
+import { INVALID_PARAMS, JsonRpcError } from "../jsonrpc";
+import { DEFAULT_PAGE_SIZE, paginate } from "../pagination";
+import { type ProtocolVersion, supportsStructuredContent } from "../protocol";
+import type { Props } from "../utils";
+
+// What a tool handler gets besides its arguments
+export type ToolContext = {
+  search: DeepWikiSearch;
+  props: Props;
+  env: Env;
+  // Documents the caller may read, from their memberships in props; the rest must be treated as missing
+  canRead: DocumentFilter;
+};
+
+export type ToolResult<Output extends z.ZodRawShape> = CallToolResult & {
+  structuredContent?: z.infer<z.ZodObject<Output>>;
+};
+
+// Callbacks are methods, so any tool is assignable to the registry's ToolDefinition<z.ZodRawShape, z.ZodRawShape>
+export interface ToolDefinition<Input extends z.ZodRawShape = z.ZodRawShape, Output extends z.ZodRawShape = z.ZodRawShape> {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: Input;
+  // Checks across arguments (e.g. a cursor that must match the query); failures are invalid params too
+  refineInput?(args: z.infer<z.ZodObject<Input>>, ctx: z.RefinementCtx): void;
+  outputSchema?: Output;
+  annotations?: ToolAnnotations;
+  handler(args: z.infer<z.ZodObject<Input>>, context: ToolContext): ToolResult<Output> | Promise<ToolResult<Output>>;
+}
+
+// Identity helper so a tool module gets its handler's types inferred from its schemas
+export function defineTool<Input extends z.ZodRawShape, Output extends z.ZodRawShape = z.ZodRawShape>(
+  tool: ToolDefinition<Input, Output>,
+): ToolDefinition<Input, Output> {
+  return tool;
+}
+
+// Optional hooks for callers that need to observe tool calls (e.g. per-session bookkeeping)
+export type ToolCallObserver = (name: string, args: Record<string, unknown>) => void;
+
+function toJsonSchema(shape: z.ZodRawShape) {
+  const { $schema, ...schema } = zodToJsonSchema(z.object(shape).strict(), { strictUnions: true }) as Record<string, unknown>;
+  return schema as Tool["inputSchema"];
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(private pageSize = DEFAULT_PAGE_SIZE) {}
+
+  register<Input extends z.ZodRawShape, Output extends z.ZodRawShape>(tool: ToolDefinition<Input, Output>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  // One page of tools/list in registration order; withOutputSchema is for clients on 2025-06-18 or later
+  list(cursor: string | undefined, withOutputSchema: boolean): { tools: Tool[]; nextCursor?: string } {
+    const { page, nextCursor } = paginate([...this.tools.values()], cursor, this.pageSize);
+
+    return {
+      tools: page.map((tool) => ({
+        name: tool.name,
+        ...(tool.title && { title: tool.title }),
+        description: tool.description,
+        inputSchema: toJsonSchema(tool.inputSchema),
+        ...(withOutputSchema && tool.outputSchema && { outputSchema: toJsonSchema(tool.outputSchema) }),
+        ...(tool.annotations && { annotations: tool.annotations }),
+      })),
+      ...(nextCursor && { nextCursor }),
+    };
+  }
+
+  // tools/call: unknown tools, invalid arguments and JsonRpcErrors are protocol errors, other failures an isError result
+  async call(
+    name: string,
+    args: unknown,
+    context: ToolContext,
+    withStructuredContent: boolean,
+    onCall?: ToolCallObserver,
+  ): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    const parsed = this.parseArguments(tool, args);
+    onCall?.(name, parsed);
+
+    try {
+      const result = await tool.handler(parsed, context);
+
+      // Older clients only understand the stringified JSON text block
+      if (!withStructuredContent) {
+        const { structuredContent, ...rest } = result;
+        return rest;
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        throw error;
+      }
+      console.error(`Tool ${name} failed:`, error);
+      return {
+        content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+      };
+    }
+  }
+
+  // Serves this registry on an McpServer for the session's negotiated revision; call before it connects
+  registerWithServer(
+    server: McpServer,
+    getContext: () => ToolContext | Promise<ToolContext>,
+    getProtocolVersion: () => ProtocolVersion,
+    onCall?: ToolCallObserver,
+  ) {
+    server.server.registerCapabilities({ tools: {} });
+
+    server.server.setRequestHandler(ListToolsRequestSchema, (request) =>
+      this.list(request.params?.cursor, supportsStructuredContent(getProtocolVersion())),
+    );
+    server.server.setRequestHandler(CallToolRequestSchema, async (request) =>
+      this.call(request.params.name, request.params.arguments, await getContext(), supportsStructuredContent(getProtocolVersion()), onCall),
+    );
+  }
+
+  // Unknown properties are rejected, matching `additionalProperties: false` in tools/list
+  private parseArguments(tool: ToolDefinition, args: unknown) {
+    const schema = z.object(tool.inputSchema).strict();
+    const parsed = (tool.refineInput ? schema.superRefine(tool.refineInput) : schema).safeParse(args ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => ({
+        field: issue.path.join(".") || "arguments",
+        message: issue.message,
+      }));
+      const summary = issues.map((issue) => `${issue.field}: ${issue.message}`).join("; ");
+      throw new JsonRpcError(INVALID_PARAMS, `Invalid arguments for tool ${tool.name}: ${summary}`, { tool: tool.name, issues });
+    }
+    return parsed.data;
+  }
+}
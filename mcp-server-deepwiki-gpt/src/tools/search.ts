@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { chunkTitle } from "../chunking";
+import { DEFAULT_SEARCH_LIMIT, documentUrl } from "../deepwiki-data";
+import { buildSnippet } from "../snippets";
+import { defineTool } from "./registry";
+
+const MAX_SEARCH_LIMIT = 50;
+
+const facetCountSchema = z.object({
+  value: z.string(),
+  count: z.number(),
+});
+
+// Cursors are opaque to clients: the offset of the next page plus the query it belongs to
+function encodeCursor(query: string, offset: number): string {
+  return btoa(encodeURIComponent(JSON.stringify({ query, offset })));
+}
+
+function decodeCursor(cursor: string): { query: string; offset: number } | null {
+  try {
+    const decoded = JSON.parse(decodeURIComponent(atob(cursor)));
+    if (typeof decoded.query === "string" && Number.isInteger(decoded.offset) && decoded.offset >= 0) {
+      return decoded;
+    }
+  } catch {
+    // not a cursor we issued
+  }
+  return null;
+}
+
+// Search tool: ranked document matches in ChatGPT's search result format
+export const searchTool = defineTool({
+  name: "search",
+  description: "Searches for resources using the provided query string and returns matching results.",
+  inputSchema: {
+    query: z
+      .string()
+      .min(1, "query must not be empty")
+      .describe('Search query. Supports "quoted phrases", -exclusions, OR, and tag:, category: and version: filters.'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_SEARCH_LIMIT)
+      .optional()
+      .describe(`Maximum number of results to return (default ${DEFAULT_SEARCH_LIMIT}).`),
+    cursor: z.string().optional().describe("nextCursor from a previous search with the same query, to get the next page."),
+  },
+  // Like an invalid list cursor (see pagination.ts), a cursor for another query is invalid params
+  refineInput: ({ query, cursor }, ctx) => {
+    if (cursor !== undefined && decodeCursor(cursor)?.query !== query) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["cursor"],
+        message: "invalid cursor; pass the nextCursor returned by a search with the same query",
+      });
+    }
+  },
+  outputSchema: {
+    results: z.array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        text: z.string(),
+        url: z.string(),
+      }),
+    ),
+    total: z.number().describe("Number of matching results across all pages."),
+    nextCursor: z.string().optional(),
+    didYouMean: z.string().optional().describe("Spelling-corrected query, when the query found few results."),
+    facets: z
+      .object({
+        category: z.array(facetCountSchema),
+        tags: z.array(facetCountSchema),
+        version: z.array(facetCountSchema),
+      })
+      .describe("Matching documents per category, tag and version across all pages; narrow with category:, tag: or version:."),
+  },
+  annotations: {
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async ({ query, limit = DEFAULT_SEARCH_LIMIT, cursor }, { search, canRead }) => {
+    console.log(`DeepWiki search query: ${query}`);
+
+    // Best passage of each matching document (filters such as version:2024-11-25 are part of the query)
+    // refineInput has already rejected cursors of other queries
+    const offset = cursor === undefined ? 0 : (decodeCursor(cursor)?.offset ?? 0);
+    const { passages, total, terms, suggestion, facets } = await search.searchPassages(query, { filter: canRead, offset, limit });
+
+    // Convert to MCP search result format; IDs are chunk IDs, which fetch accepts, and
+    // text is a snippet around the matches with **highlighted** terms
+    const results = passages.map((chunk) => ({
+      id: chunk.id,
+      title: chunkTitle(chunk),
+      text: buildSnippet(chunk.text, terms),
+      url: documentUrl(chunk.document),
+    }));
+
+    const nextOffset = offset + results.length;
+    const response = {
+      results,
+      total,
+      ...(nextOffset < total && { nextCursor: encodeCursor(query, nextOffset) }),
+      ...(suggestion && { didYouMean: suggestion }),
+      facets,
+    };
+
+    console.log(`DeepWiki found ${total} results for query: ${query}`);
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+      structuredContent: response,
+    };
+  },
+});
@@ -117,4 +117,7 @@ export type Props = {
   name: string;
   email: string;
   accessToken: string;
+  // GitHub organizations and teams ("<org>/<team-slug>") the user belonged to at login; see access.ts
+  orgs?: string[];
+  teams?: string[];
 };
@@ -0,0 +1,132 @@
+// Vector index for semantic search. Each document chunk is embedded once
+// (embeddings are cached by text, so reloading an unchanged corpus costs
+// nothing) and queries are ranked by cosine similarity. New embeddings are
+// saved next to the documents, so other isolates and later deployments load
+// them instead of embedding the corpus again.
+
+import { type DocumentChunk, chunkTitle, compareChunkIds } from "./chunking";
+import type { Embedder } from "./embeddings";
+
+// Keeps each passage within the embedding model's context
+const MAX_EMBEDDED_CHARS = 2000;
+
+// Saved embeddings of one embedder: base64 float32 vectors keyed by the SHA-256 of the embedded text
+export type SavedEmbeddings = Record<string, string>;
+
+// Where a VectorIndex loads and saves its embeddings, e.g. the document store
+export interface EmbeddingStorage {
+  load(): Promise<SavedEmbeddings | null>;
+  save(embeddings: SavedEmbeddings): Promise<void>;
+}
+
+export type VectorMatch = {
+  chunk: DocumentChunk;
+  similarity: number;
+};
+
+// Embedded text: the chunk prefixed with its title for context
+function embeddingText(chunk: DocumentChunk): string {
+  return `${chunkTitle(chunk)}\n\n${chunk.text}`.slice(0, MAX_EMBEDDED_CHARS);
+}
+
+async function textHash(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function encodeVector(vector: number[]): string {
+  let binary = "";
+  for (const byte of new Uint8Array(new Float32Array(vector).buffer)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+export function decodeVector(encoded: string): number[] {
+  const bytes = Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+  return [...new Float32Array(bytes.buffer)];
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+export class VectorIndex {
+  private entries: { chunk: DocumentChunk; vector: number[] }[] = [];
+  private cache = new Map<string, number[]>();
+
+  constructor(
+    readonly embedder: Embedder,
+    private storage: EmbeddingStorage | null = null,
+  ) {}
+
+  /**
+   * Replaces the indexed chunks, embedding only passages that are neither
+   * cached nor saved in storage. Storage failures only cost re-embedding.
+   */
+  async index(chunks: DocumentChunk[]): Promise<void> {
+    const texts = chunks.map(embeddingText);
+    let missing = [...new Set(texts.filter((text) => !this.cache.has(text)))];
+
+    if (missing.length > 0 && this.storage) {
+      const saved = await this.storage.load().catch((error) => {
+        console.error(`DeepWiki failed to load saved ${this.embedder.name} embeddings:`, error);
+        return null;
+      });
+      if (saved) {
+        for (const text of missing) {
+          const vector = saved[await textHash(text)];
+          if (vector) {
+            this.cache.set(text, decodeVector(vector));
+          }
+        }
+        missing = missing.filter((text) => !this.cache.has(text));
+      }
+    }
+
+    const embedded = missing.length > 0;
+    if (embedded) {
+      const vectors = await this.embedder.embed(missing);
+      missing.forEach((text, i) => this.cache.set(text, vectors[i]));
+      console.log(`DeepWiki embedded ${missing.length} passages with ${this.embedder.name}`);
+    }
+
+    // Drop embeddings of passages that are gone
+    const live = new Set(texts);
+    for (const text of this.cache.keys()) {
+      if (!live.has(text)) {
+        this.cache.delete(text);
+      }
+    }
+
+    this.entries = chunks.map((chunk, i) => ({ chunk, vector: this.cache.get(texts[i])! }));
+
+    // Saved as a whole, so embeddings of passages that are gone are dropped there too
+    if (embedded && this.storage) {
+      const saved: SavedEmbeddings = {};
+      for (const [text, vector] of this.cache) {
+        saved[await textHash(text)] = encodeVector(vector);
+      }
+      await this.storage.save(saved).catch((error) => {
+        console.error(`DeepWiki failed to save ${this.embedder.name} embeddings:`, error);
+      });
+    }
+  }
+
+  /**
+   * Chunks most similar to the query, down to the embedder's similarity
+   * threshold.
+   */
+  async search(query: string, limit: number): Promise<VectorMatch[]> {
+    const [vector] = await this.embedder.embed([query]);
+    return this.entries
+      .map(({ chunk, vector: chunkVector }) => ({ chunk, similarity: dot(vector, chunkVector) }))
+      .filter((match) => match.similarity >= this.embedder.minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity || compareChunkIds(a.chunk, b.chunk))
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { documentAccess, documentAccessSchema } from "../src/access";
+import { makeDocument } from "./helpers";
+
+const withAccess = (access?: string) => makeDocument("doc", "Text", { metadata: { access } });
+
+describe("documentAccess", () => {
+  const member = documentAccess({ orgs: ["Acme"], teams: ["acme/Platform"] });
+
+  test("public documents, with or without the field, are readable by everyone", () => {
+    for (const canRead of [member, documentAccess({}), documentAccess(undefined)]) {
+      assert.equal(canRead(withAccess()), true);
+      assert.equal(canRead(withAccess("PUBLIC")), true);
+    }
+  });
+
+  test("org: documents need membership of the organization", () => {
+    assert.equal(member(withAccess("org:acme")), true);
+    assert.equal(member(withAccess("org:globex")), false);
+    assert.equal(documentAccess(undefined)(withAccess("org:acme")), false, "sessions without memberships");
+  });
+
+  test("team: documents need membership of the team, not just its organization", () => {
+    assert.equal(member(withAccess("team:ACME/platform")), true);
+    assert.equal(member(withAccess("team:acme/security")), false);
+    assert.equal(documentAccess({ orgs: ["acme"] })(withAccess("team:acme/platform")), false);
+  });
+
+  test("repo: documents are never readable here", () => {
+    assert.equal(member(withAccess("repo:acme/app")), false);
+  });
+});
+
+test("documentAccessSchema accepts public, org: and team: levels only", () => {
+  for (const access of ["public", "org:acme", "team:acme/platform"]) {
+    assert.equal(documentAccessSchema.safeParse(access).success, true, access);
+  }
+  for (const access of ["private", "org:", "team:acme", "repo:acme/app"]) {
+    assert.equal(documentAccessSchema.safeParse(access).success, false, access);
+  }
+});
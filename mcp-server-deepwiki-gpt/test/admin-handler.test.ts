@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { AdminHandler } from "../src/admin-handler";
+import { getDocumentStore } from "../src/document-store";
+
+// No store bindings, so the routes write to this isolate's in-memory store
+const env = { ADMIN_LOGINS: "Admin, other" } as unknown as Env;
+
+function admin(path: string, init: RequestInit = {}, login = "admin") {
+  const ctx = { props: { login } } as unknown as ExecutionContext;
+  return AdminHandler.fetch(new Request(`https://example.com${path}`, init), env, ctx);
+}
+
+async function body(response: Response) {
+  return (await response.json()) as Record<string, any>;
+}
+
+function markdown(version: string) {
+  return `---\nid: upload-guide\nversion: "${version}"\ncategory: guides\n---\n# Upload guide\nVersion ${version}.`;
+}
+
+function upload(files: Record<string, string>) {
+  const form = new FormData();
+  for (const [name, text] of Object.entries(files)) {
+    form.append(name, new File([text], name, { type: "text/markdown" }));
+  }
+  return admin("/admin/ingest", { method: "POST", body: form });
+}
+
+test("only logins in ADMIN_LOGINS may use the admin routes", async () => {
+  assert.equal((await admin("/admin/documents", {}, "mallory")).status, 403);
+  assert.equal((await admin("/admin/documents", {}, "ADMIN")).status, 200);
+});
+
+describe("POST /admin/ingest", () => {
+  test("ingests a single Markdown body named by ?name=", async () => {
+    const response = await admin("/admin/ingest?name=Single%20Page.md", {
+      method: "POST",
+      headers: { "content-type": "text/markdown" },
+      body: "---\nversion: 1.0\ncategory: guides\n---\n# Single page",
+    });
+    assert.equal(response.status, 200);
+    assert.deepEqual((await body(response)).ingested, ["single-page"]);
+  });
+
+  test("accepts several versions of a document in one upload", async () => {
+    const response = await upload({ "v1.md": markdown("1.0"), "v2.md": markdown("2.0") });
+    assert.equal(response.status, 200);
+    const stored = await getDocumentStore(env).loadDocuments();
+    assert.deepEqual(
+      stored.filter((doc) => doc.id === "upload-guide").map((doc) => doc.metadata.version),
+      ["1.0", "2.0"],
+    );
+  });
+
+  test("rejects the whole upload if a revision repeats or a file is invalid", async () => {
+    const response = await upload({ "a.md": markdown("3.0"), "b.md": markdown("3.0"), "bad.md": "# No front-matter" });
+    assert.equal(response.status, 400);
+    assert.deepEqual((await body(response)).errors, [
+      {
+        source: "bad.md",
+        issues: [
+          { field: "metadata.version", message: "Required" },
+          { field: "metadata.category", message: "Required" },
+        ],
+      },
+      { source: "upload-guide@3.0", issues: [{ field: "metadata.version", message: "duplicate revision upload-guide@3.0 in upload" }] },
+    ]);
+    const stored = await getDocumentStore(env).loadDocuments();
+    assert.equal(
+      stored.some((doc) => doc.id === "upload-guide" && doc.metadata.version === "3.0"),
+      false,
+    );
+  });
+});
+
+describe("document routes", () => {
+  const json = (method: string, value: unknown): RequestInit => ({
+    method,
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(value),
+  });
+  const guide = (version: string) => ({
+    title: "Routes guide",
+    content: `Version ${version}.`,
+    metadata: { version, category: "guides", tags: [] },
+  });
+
+  test("PUT adds a revision, then replaces it; the body's ID must match the path", async () => {
+    assert.equal((await admin("/admin/documents/routes-guide", json("PUT", guide("1.0")))).status, 201);
+    const replaced = await admin("/admin/documents/routes-guide", json("PUT", { ...guide("1.0"), content: "Replaced." }));
+    assert.equal(replaced.status, 200);
+    assert.equal((await body(replaced)).document.content, "Replaced.");
+
+    const mismatch = await admin("/admin/documents/routes-guide", json("PUT", { ...guide("1.0"), id: "other" }));
+    assert.equal(mismatch.status, 400);
+    assert.deepEqual((await body(mismatch)).errors[0].issues, [{ field: "id", message: "must match the ID in the path" }]);
+    assert.equal((await admin("/admin/documents/routes-guide", json("PUT", { title: "" }))).status, 400);
+  });
+
+  test("PATCH updates the latest revision, or adds one when the version changes", async () => {
+    await admin("/admin/documents/patched", json("PUT", guide("1.0")));
+    const updated = await admin("/admin/documents/patched", json("PATCH", { title: "Patched", url: "https://example.com/patched" }));
+    assert.equal(updated.status, 200);
+    assert.equal((await body(updated)).document.title, "Patched");
+
+    assert.equal((await admin("/admin/documents/patched", json("PATCH", { metadata: { version: "2.0" } }))).status, 201);
+    const fetched = await body(await admin("/admin/documents/patched"));
+    assert.deepEqual(fetched.versions, ["2.0", "1.0"]);
+    assert.equal(fetched.document.url, "https://example.com/patched");
+
+    assert.equal((await admin("/admin/documents/patched", json("PATCH", { id: "renamed" }))).status, 400);
+    assert.equal((await admin("/admin/documents/missing", json("PATCH", { title: "x" }))).status, 404);
+  });
+
+  test("DELETE removes one version, or every revision", async () => {
+    await admin("/admin/documents/deleted", json("PUT", guide("1.0")));
+    await admin("/admin/documents/deleted", json("PUT", guide("2.0")));
+
+    assert.deepEqual((await body(await admin("/admin/documents/deleted?version=1.0", { method: "DELETE" }))).deleted, ["deleted@1.0"]);
+    assert.deepEqual((await body(await admin("/admin/documents/deleted"))).versions, ["2.0"]);
+    assert.deepEqual((await body(await admin("/admin/documents/deleted", { method: "DELETE" }))).deleted, ["deleted@2.0"]);
+    assert.equal((await admin("/admin/documents/deleted")).status, 404);
+  });
+
+  test("bulk imports NDJSON only if every line validates", async () => {
+    const line = (version: string) => JSON.stringify({ id: "bulk", ...guide(version) });
+    const ndjson = (lines: string[]) => ({ method: "POST", headers: { "content-type": "application/x-ndjson" }, body: lines.join("\n") });
+
+    const rejected = await admin("/admin/documents/bulk", ndjson([line("1.0"), "{oops", line("1.0")]));
+    assert.equal(rejected.status, 400);
+    assert.deepEqual(
+      (await body(rejected)).errors.map((error: { source: string }) => error.source),
+      ["line 2", "line 3"],
+    );
+    assert.equal((await admin("/admin/documents/bulk")).status, 404, "nothing was written");
+
+    const imported = await admin("/admin/documents/bulk", ndjson([line("1.0"), "", line("2.0")]));
+    assert.deepEqual((await body(imported)).imported, ["bulk@1.0", "bulk@2.0"]);
+    assert.equal((await admin("/admin/documents/bulk", ndjson(["", " "]))).status, 400);
+
+    const listed = await body(await admin("/admin/documents"));
+    assert.deepEqual(listed.documents.find((doc: { id: string }) => doc.id === "bulk").versions, ["2.0", "1.0"]);
+  });
+});
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { citedSources, createAnswerGenerator, ExtractiveAnswerGenerator } from "../src/answers";
+
+describe("ExtractiveAnswerGenerator", () => {
+  const generator = new ExtractiveAnswerGenerator();
+  const sources = [
+    { title: "Transports", text: "## Transports\nLocal clients speak stdio. Remote servers use Streamable HTTP." },
+    {
+      title: "Auth",
+      text: "- Remote servers authenticate clients with OAuth.\n```\nremote servers oauth\n```\nTokens expire after an hour.",
+    },
+  ];
+
+  test("quotes the sentences sharing the most words with the question, in source order, with citations", async () => {
+    assert.equal(
+      await generator.answer("How do remote servers authenticate with OAuth?", sources),
+      "Remote servers use Streamable HTTP. [1] Remote servers authenticate clients with OAuth. [2]",
+    );
+  });
+
+  test("skips headings, list markers and code blocks", async () => {
+    const answer = await generator.answer("transports", sources);
+    assert.equal(answer, null);
+  });
+
+  test("has no answer when no sentence shares a word with the question", async () => {
+    assert.equal(await generator.answer("billing invoices", sources), null);
+  });
+});
+
+describe("citedSources", () => {
+  test("lists cited source numbers in order of first citation, ignoring ones out of range", () => {
+    assert.deepEqual(citedSources("B [2]. A [1][2]. C [3]. D [0].", 2), [2, 1]);
+  });
+});
+
+describe("createAnswerGenerator", () => {
+  test("uses the extractive stand-in without an AI binding", () => {
+    assert.equal(createAnswerGenerator({} as Env).name, "extractive");
+    assert.equal(createAnswerGenerator({ ANSWERER: "extractive", AI: {} } as unknown as Env).name, "extractive");
+  });
+});
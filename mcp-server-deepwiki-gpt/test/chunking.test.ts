@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { chunkDocument, chunkTitle, slugify } from "../src/chunking";
+import { makeDocument } from "./helpers";
+
+function chunkIds(content: string): string[] {
+  return chunkDocument(makeDocument("doc", content)).map((chunk) => chunk.id);
+}
+
+describe("chunkDocument", () => {
+  test("splits at Markdown and bold headings, with an intro for text before them", () => {
+    const chunks = chunkDocument(makeDocument("doc", "Intro text.\n\n## Getting Started\nSteps.\n\n**Best Practices**\nTips."));
+    assert.deepEqual(
+      chunks.map((chunk) => [chunk.id, chunk.heading]),
+      [
+        ["doc#intro", null],
+        ["doc#getting-started", "Getting Started"],
+        ["doc#best-practices", "Best Practices"],
+      ],
+    );
+    assert.equal(chunks[1].text, "## Getting Started\nSteps.");
+  });
+
+  test("ignores headings inside code fences", () => {
+    assert.deepEqual(chunkIds("## Usage\n```bash\n# not a heading\n```"), ["doc#usage"]);
+  });
+
+  test("suffixes repeated headings", () => {
+    assert.deepEqual(chunkIds("## Usage\na\n## Usage\nb\n## Usage\nc"), ["doc#usage", "doc#usage-1", "doc#usage-2"]);
+  });
+
+  test("suffixes never collide with another heading's anchor", () => {
+    assert.deepEqual(chunkIds("## Usage\na\n## Usage\nb\n## Usage 1\nc"), ["doc#usage", "doc#usage-1", "doc#usage-1-1"]);
+    assert.deepEqual(chunkIds("## Usage 1\na\n## Usage\nb\n## Usage\nc"), ["doc#usage-1", "doc#usage", "doc#usage-2"]);
+    const paragraph = "word ".repeat(200).trim();
+    const ids = chunkIds(`## Long Part 2\na\n## Long\n${paragraph}\n\n${paragraph}`);
+    assert.equal(new Set(ids).size, ids.length);
+  });
+
+  test("splits long sections at paragraph breaks", () => {
+    const paragraph = "word ".repeat(200).trim();
+    const chunks = chunkDocument(makeDocument("doc", `## Long\n${paragraph}\n\n${paragraph}\n\n${paragraph}`));
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.id),
+      ["doc#long", "doc#long-part-2", "doc#long-part-3"],
+    );
+    assert.ok(chunks.every((chunk) => chunk.heading === "Long"));
+  });
+
+  test("an empty document still gets a chunk", () => {
+    assert.deepEqual(chunkIds(""), ["doc#intro"]);
+  });
+
+  test("chunk titles combine the document title and heading", () => {
+    const [intro, section] = chunkDocument(makeDocument("doc", "Intro\n## Usage\nText", { title: "MCP Tools" }));
+    assert.equal(chunkTitle(intro), "MCP Tools");
+    assert.equal(chunkTitle(section), "MCP Tools › Usage");
+  });
+});
+
+describe("slugify", () => {
+  test("lowercases and joins words with hyphens", () => {
+    assert.equal(slugify("Tool Implementation: Example!"), "tool-implementation-example");
+    assert.equal(slugify("***"), "section");
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { DeepWikiSearch } from "../src/deepwiki-data";
+import { MemoryDocumentStore } from "../src/document-store";
+import { analyze } from "../src/text-analysis";
+import { makeDocument } from "./helpers";
+
+async function loadSearch(...documents: Parameters<typeof makeDocument>[]): Promise<DeepWikiSearch> {
+  const search = new DeepWikiSearch(
+    new MemoryDocumentStore(
+      documents.map((args) => makeDocument(...args)),
+      [],
+    ),
+  );
+  await search.load();
+  return search;
+}
+
+describe("DeepWikiSearch", () => {
+  test("consecutive pages neither repeat nor skip passages", async () => {
+    const search = await loadSearch(
+      ...Array.from(
+        { length: 12 },
+        (_, i): Parameters<typeof makeDocument> => [`doc-${String(i).padStart(2, "0")}`, "Resources and prompts."],
+      ),
+    );
+    const all = await search.searchPassages("resources", { limit: 100 });
+    assert.equal(all.total, 12);
+    const paged = [];
+    for (let offset = 0; offset < all.total; offset += 5) {
+      paged.push(...(await search.searchPassages("resources", { offset, limit: 5 })).passages);
+    }
+    assert.deepEqual(
+      paged.map((chunk) => chunk.id),
+      all.passages.map((chunk) => chunk.id),
+    );
+  });
+
+  test("returns one passage per document unless asked for more", async () => {
+    const search = await loadSearch(["guide", "## Setup\nInstall the server.\n## Deploy\nDeploy the server."]);
+    assert.equal((await search.searchPassages("server")).passages.length, 1);
+    assert.equal((await search.searchPassages("server", { perDocument: 2 })).passages.length, 2);
+  });
+
+  test("passages can be looked up by chunk ID", async () => {
+    const search = await loadSearch(["guide", "Intro.\n## Setup\nInstall the server."]);
+    assert.equal(search.getChunk("guide#setup")?.heading, "Setup");
+    assert.equal(search.getChunk("guide#missing"), null);
+  });
+
+  test("facets count every matching document, not just the page", async () => {
+    const search = await loadSearch(
+      ["a", "oauth", { metadata: { category: "security", tags: ["auth"] } }],
+      ["b", "oauth", { metadata: { category: "security", tags: ["auth", "jwt"] } }],
+      ["c", "oauth", { metadata: { category: "guides" } }],
+    );
+    const { facets, passages } = await search.searchPassages("oauth", { limit: 1 });
+    assert.equal(passages.length, 1);
+    assert.deepEqual(facets.category, [
+      { value: "security", count: 2 },
+      { value: "guides", count: 1 },
+    ]);
+    assert.deepEqual(facets.tags, [
+      { value: "auth", count: 2 },
+      { value: "jwt", count: 1 },
+    ]);
+  });
+
+  test("misspelled queries still match and come with a suggestion", async () => {
+    const search = await loadSearch(["auth", "Authentication for remote servers."]);
+    const result = await search.searchPassages("authentcation");
+    assert.deepEqual(
+      result.passages.map((chunk) => chunk.document.id),
+      ["auth"],
+    );
+    assert.equal(result.suggestion, "authentication");
+  });
+
+  test("the filter hides documents from the results", async () => {
+    const search = await loadSearch(["open", "sampling"], ["hidden", "sampling"]);
+    const result = await search.searchPassages("sampling", { filter: (doc) => doc.id !== "hidden" });
+    assert.deepEqual(
+      result.passages.map((chunk) => chunk.document.id),
+      ["open"],
+    );
+    assert.equal(result.total, 1);
+  });
+
+  test("words of hidden documents are never suggested or used to correct typos", async () => {
+    const search = await loadSearch(["open", "Public notes on sampling."], ["secret", "Acquisition codename nightingale."]);
+    const canRead = (doc: { id: string }) => doc.id !== "secret";
+
+    assert.equal((await search.searchPassages("nightingal")).suggestion, "nightingale");
+    const filtered = await search.searchPassages("nightingal", { filter: canRead });
+    assert.equal(filtered.suggestion, undefined);
+    assert.deepEqual(filtered.terms, analyze("nightingal"), "no corrections from the hidden document");
+    assert.equal(filtered.total, 0);
+    assert.equal(search.coverage("nightingal", [], canRead), 0);
+
+    assert.equal((await search.searchPassages("samplng", { filter: canRead })).suggestion, "sampling");
+  });
+
+  test("only the newest revision is searched, but every revision can be resolved", async () => {
+    const search = await loadSearch(
+      ["doc", "old wording", { metadata: { version: "1.10" } }],
+      ["doc", "new wording", { metadata: { version: "1.9" } }],
+      ["doc", "newest wording", { metadata: { version: "2.0" } }],
+    );
+    assert.deepEqual(
+      search.getRevisions("doc").map((doc) => doc.metadata.version),
+      ["1.9", "1.10", "2.0"],
+    );
+    assert.equal(search.getDocument("doc")?.content, "newest wording");
+    assert.equal(search.resolveDocument("doc@latest")?.content, "newest wording");
+    assert.equal(search.resolveDocument("doc@1.10")?.content, "old wording");
+    assert.equal(search.resolveDocument("doc@3.0"), null);
+    assert.equal((await search.searchPassages("old")).total, 0);
+  });
+
+  test("a version: filter also searches earlier revisions", async () => {
+    const search = await loadSearch(
+      ["doc", "## Usage\nLegacy transport", { metadata: { version: "1.0" } }],
+      ["doc", "## Usage\nStreamable transport", { metadata: { version: "2.0" } }],
+    );
+    const ids = async (query: string) => (await search.searchPassages(query)).passages.map((chunk) => chunk.id);
+
+    assert.deepEqual(await ids("transport"), ["doc#usage"]);
+    assert.deepEqual(await ids("transport version:1.0"), ["doc@1.0#usage"]);
+    assert.deepEqual(await ids("legacy version:1.0"), ["doc@1.0#usage"]);
+    assert.deepEqual(await ids("transport version:2.0"), ["doc#usage"]);
+    assert.deepEqual(await ids("legacy -version:2.0"), []);
+
+    const chunk = search.getChunk("doc@1.0#usage");
+    assert.equal(chunk?.document.metadata.version, "1.0");
+    assert.equal(chunk?.text, "## Usage\nLegacy transport");
+  });
+});
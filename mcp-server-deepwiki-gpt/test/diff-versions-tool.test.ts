@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { DeepWikiSearch } from "../src/deepwiki-data";
+import { MemoryDocumentStore } from "../src/document-store";
+import { diffVersionsTool } from "../src/tools/diff-versions";
+import { type ToolContext, ToolRegistry } from "../src/tools/registry";
+import { makeDocument } from "./helpers";
+
+describe("diff_versions tool", async () => {
+  const search = new DeepWikiSearch(
+    new MemoryDocumentStore(
+      ["1.0", "2.0", "3.0"].map((version) => makeDocument("doc", `Text of ${version}`, { metadata: { version } })),
+      [],
+    ),
+  );
+  await search.load();
+  const context = { search, props: {}, env: {}, canRead: () => true } as unknown as ToolContext;
+  const registry = new ToolRegistry().register(diffVersionsTool);
+  const diff = (args: Record<string, unknown>) => registry.call("diff_versions", { id: "doc", ...args }, context, true);
+
+  test("defaults to the latest version against the one before it", async () => {
+    const { structuredContent } = await diff({});
+    assert.deepEqual([structuredContent?.from, structuredContent?.to], ["2.0", "3.0"]);
+  });
+
+  test("from must be older than to", async () => {
+    for (const args of [
+      { from: "3.0", to: "1.0" },
+      { from: "2.0", to: "2.0" },
+    ]) {
+      const result = await diff(args);
+      assert.equal(result.isError, true);
+      assert.match((result.content[0] as { text: string }).text, /from must be an earlier version than to/);
+    }
+    assert.equal((await diff({ from: "1.0", to: "3.0" })).isError, undefined);
+  });
+});
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { unifiedDiff } from "../src/diff";
+
+const files = { fromFile: "a/doc@1", toFile: "b/doc@2" };
+
+describe("unifiedDiff", () => {
+  test("identical texts have an empty diff", () => {
+    assert.deepEqual(unifiedDiff("a\nb\n", "a\nb\n", files), { diff: "", additions: 0, deletions: 0 });
+  });
+
+  test("prints changed lines with context, deletions before additions", () => {
+    const result = unifiedDiff("1\n2\n3\n4\n5\n6\n7\n8\n", "1\n2\n3\n4\nfive\n6\n7\n8\n", files);
+    assert.equal(
+      result.diff,
+      ["--- a/doc@1", "+++ b/doc@2", "@@ -2,7 +2,7 @@", " 2", " 3", " 4", "-5", "+five", " 6", " 7", " 8", ""].join("\n"),
+    );
+    assert.equal(result.additions, 1);
+    assert.equal(result.deletions, 1);
+  });
+
+  test("merges changes closer than two contexts into one hunk", () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n");
+    const close = old.replace("line 5", "changed 5").replace("line 10", "changed 10");
+    const far = old.replace("line 2", "changed 2").replace("line 18", "changed 18");
+    assert.equal(unifiedDiff(old, close, files).diff.match(/^@@/gm)?.length, 1);
+    assert.equal(unifiedDiff(old, far, files).diff.match(/^@@/gm)?.length, 2);
+  });
+
+  test("empty ranges start at the line before them", () => {
+    assert.match(unifiedDiff("", "a\n", files).diff, /^@@ -0,0 \+1,1 @@$/m);
+    assert.match(unifiedDiff("a\nb\nc\n", "a\nc\n", { ...files, context: 0 }).diff, /^@@ -2,1 \+1,0 @@$/m);
+  });
+
+  test("ignores CRLF versus LF line endings", () => {
+    assert.equal(unifiedDiff("a\r\nb\r\n", "a\nb\n", files).diff, "");
+  });
+});
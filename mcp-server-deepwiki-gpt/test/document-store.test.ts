@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { deepWikiDocumentSchema, KVDocumentStore, R2DocumentStore } from "../src/document-store";
+import { makeDocument } from "./helpers";
+
+// Just enough of the KV and R2 binding APIs for the stores, counting reads
+
+class FakeKV {
+  values = new Map<string, string>();
+  reads = 0;
+
+  async list({ prefix = "" }: { prefix?: string }) {
+    const keys = [...this.values.keys()].filter((name) => name.startsWith(prefix)).map((name) => ({ name }));
+    return { keys, list_complete: true };
+  }
+
+  async get(key: string | string[], type: string) {
+    this.reads++;
+    if (Array.isArray(key)) {
+      assert.ok(key.length <= 100, "bulk reads are limited to 100 keys");
+      return new Map(key.map((name) => [name, this.values.get(name) ?? null]));
+    }
+    const value = this.values.get(key) ?? null;
+    return type === "json" && value !== null ? JSON.parse(value) : value;
+  }
+
+  async put(key: string, value: string) {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.values.delete(key);
+  }
+}
+
+class FakeR2 {
+  objects = new Map<string, { body: string; etag: string }>();
+  reads: string[] = [];
+  private version = 0;
+
+  async list({ prefix = "" }: { prefix?: string }) {
+    const objects = [...this.objects].filter(([key]) => key.startsWith(prefix)).map(([key, { etag }]) => ({ key, etag }));
+    return { objects, truncated: false };
+  }
+
+  async get(key: string) {
+    this.reads.push(key);
+    const object = this.objects.get(key);
+    return object && { etag: object.etag, json: async () => JSON.parse(object.body) };
+  }
+
+  async put(key: string, body: string) {
+    this.objects.set(key, { body, etag: `etag-${++this.version}` });
+  }
+
+  async delete(key: string) {
+    this.objects.delete(key);
+  }
+}
+
+const documents = Array.from({ length: 150 }, (_, i) => makeDocument(`doc-${i}`, `Document ${i}`));
+
+test("document IDs must not contain the @ and # reference separators", () => {
+  for (const id of ["guide@2.0", "guide#setup"]) {
+    const parsed = deepWikiDocumentSchema.safeParse(makeDocument(id, "Text"));
+    assert.equal(parsed.success, false);
+    assert.deepEqual(
+      parsed.error?.issues.map((issue) => [issue.path.join("."), issue.message]),
+      [["id", "must not contain @ or #"]],
+    );
+  }
+  assert.equal(deepWikiDocumentSchema.safeParse(makeDocument("acme/docs:wiki/Home", "Text")).success, true);
+});
+
+describe("KVDocumentStore", () => {
+  test("reads documents in bulk, skipping malformed ones", async () => {
+    const kv = new FakeKV();
+    const store = new KVDocumentStore(kv as unknown as KVNamespace);
+    await store.putDocuments(documents);
+    await kv.put("doc:broken@1", "{not json");
+
+    kv.reads = 0;
+    const loaded = await store.loadDocuments();
+    assert.equal(loaded.length, 150);
+    assert.equal(kv.reads, 2);
+  });
+});
+
+describe("R2DocumentStore", () => {
+  test("reads every object once, then only new or changed ones from the bundle", async () => {
+    const r2 = new FakeR2();
+    const store = new R2DocumentStore(r2 as unknown as R2Bucket);
+    await store.putDocuments(documents);
+
+    assert.equal((await store.loadDocuments()).length, 150);
+    assert.equal(r2.reads.length, 151, "the missing bundle, then each object");
+
+    r2.reads = [];
+    assert.equal((await store.loadDocuments()).length, 150);
+    assert.deepEqual(r2.reads, ["docs.bundle.json"]);
+
+    await store.putDocuments([makeDocument("doc-0", "Changed")]);
+    await store.deleteDocuments([documents[1]]);
+    r2.reads = [];
+    const loaded = await store.loadDocuments();
+    assert.deepEqual(r2.reads, ["docs.bundle.json", "docs/doc-0@1.0.json"]);
+    assert.equal(loaded.length, 149);
+    assert.equal(loaded.find((doc) => doc.id === "doc-0")?.content, "Changed");
+    assert.equal(
+      loaded.some((doc) => doc.id === "doc-1"),
+      false,
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { DeepWikiSearch } from "../src/deepwiki-data";
+import { MemoryDocumentStore, withWriteTime } from "../src/document-store";
+import { fetchTool } from "../src/tools/fetch";
+import { type ToolContext, ToolRegistry } from "../src/tools/registry";
+import { makeDocument } from "./helpers";
+
+describe("fetch tool", async () => {
+  const written = withWriteTime(
+    [makeDocument("doc", "## Usage\nNew text", { metadata: { version: "2.0" } })],
+    new Date("2025-06-01T12:00:00Z"),
+  );
+  const search = new DeepWikiSearch(
+    new MemoryDocumentStore(
+      [makeDocument("doc", "## Usage\nOld text", { metadata: { version: "1.0" } }), ...written, makeDocument("seed", "Built in.")],
+      [],
+    ),
+  );
+  await search.load();
+  const context = { search, props: {}, env: {}, canRead: () => true } as unknown as ToolContext;
+  const registry = new ToolRegistry().register(fetchTool);
+  const fetch = async (id: string) => (await registry.call("fetch", { id }, context, true)).structuredContent as Record<string, any>;
+
+  test("last_updated is when the revision was written, and absent when unknown", async () => {
+    assert.equal((await fetch("doc")).metadata.last_updated, "2025-06-01T12:00:00.000Z");
+    assert.equal("last_updated" in (await fetch("seed")).metadata, false);
+  });
+
+  test("fetches sections of earlier revisions by the IDs version: searches return", async () => {
+    const result = await fetch("doc@1.0#usage");
+    assert.equal(result.text, "## Usage\nOld text");
+    assert.equal(result.metadata.version, "1.0");
+    assert.equal(result.metadata.document_id, "doc");
+    assert.equal(result.metadata.versions, "2.0, 1.0");
+  });
+});
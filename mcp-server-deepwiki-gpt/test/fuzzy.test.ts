@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { editDistance, FuzzyMatcher, maxEditsFor } from "../src/fuzzy";
+
+describe("editDistance", () => {
+  test("counts insertions, deletions and substitutions", () => {
+    assert.equal(editDistance("kitten", "sitting", 5), 3);
+    assert.equal(editDistance("tool", "tools", 2), 1);
+    assert.equal(editDistance("same", "same", 2), 0);
+  });
+
+  test("counts an adjacent transposition as one edit", () => {
+    assert.equal(editDistance("teh", "the", 2), 1);
+  });
+
+  test("gives up past the maximum", () => {
+    assert.equal(editDistance("protocol", "resource", 2), 3);
+    assert.equal(editDistance("a", "abcdef", 2), 3);
+  });
+});
+
+describe("maxEditsFor", () => {
+  test("allows more edits for longer words", () => {
+    assert.equal(maxEditsFor("jwt"), 0);
+    assert.equal(maxEditsFor("tool"), 1);
+    assert.equal(maxEditsFor("transport"), 2);
+  });
+});
+
+describe("FuzzyMatcher", () => {
+  const matcher = new FuzzyMatcher(["transport", "transports", "transform", "tool", "tools"]);
+
+  test("returns close terms, nearest first, without the term itself", () => {
+    assert.deepEqual(matcher.similar("transprot"), [
+      { term: "transport", distance: 1 },
+      { term: "transports", distance: 2 },
+    ]);
+    assert.deepEqual(
+      matcher.similar("tools").map((match) => match.term),
+      ["tool"],
+    );
+  });
+
+  test("matches nothing for short words", () => {
+    assert.deepEqual(matcher.similar("tol"), []);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, test } from "node:test";
+import { documentAccess } from "../src/access";
+import { DeepWikiSearch } from "../src/deepwiki-data";
+import { MemoryDocumentStore } from "../src/document-store";
+import {
+  canReadRepositoryDocument,
+  ensureRepositoryIndexed,
+  gitHubWikiOptions,
+  type GitHubWikiOptions,
+  loadRepositoryDocuments,
+} from "../src/github-wiki";
+
+// A stand-in for the GitHub API and raw-content hosts: acme/public is readable
+// by any token, acme/private by "alice" only
+const repositories: Record<string, { private: boolean; readers?: string[] }> = {
+  "acme/public": { private: false },
+  "acme/private": { private: true, readers: ["alice"] },
+};
+const files: Record<string, string> = {
+  "README.md": "# Acme\nSee the docs.",
+  "docs/setup.md": "# Setup\nInstall the widget.",
+  "src/index.ts": "export {};",
+};
+const wikiPages: Record<string, string> = {
+  Home: "# Welcome\nStart with [[Getting Started]] or [the FAQ](FAQ).",
+  "Getting-Started": "Run the installer.",
+  FAQ: `Questions and answers. ${Array.from({ length: 30 }, (_, i) => `[[Missing ${i}]]`).join(" ")}`,
+};
+
+let server: Server;
+let requests: string[] = [];
+let baseUrl = "";
+
+function options(token: string): GitHubWikiOptions {
+  return gitHubWikiOptions({ GITHUB_API_URL: baseUrl, GITHUB_RAW_URL: baseUrl } as Env, token);
+}
+
+before(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url!, "http://localhost");
+    requests.push(url.pathname);
+    const token = request.headers.authorization?.split(" ")[1];
+    const [, kind, owner, repo, ...rest] = url.pathname.split("/");
+    const fullName = `${owner}/${repo}`.toLowerCase();
+    const repository = repositories[fullName];
+    if (!repository || (repository.readers && !repository.readers.includes(token!))) {
+      response.writeHead(404, { "Content-Type": "application/json" }).end(JSON.stringify({ message: "Not Found" }));
+      return;
+    }
+
+    const json = (body: unknown) => response.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+    if (kind === "wiki") {
+      const page = wikiPages[decodeURIComponent(rest.join("/")).replace(/\.md$/, "")];
+      response.writeHead(page ? 200 : 404).end(page ?? "");
+    } else if (rest.length === 0) {
+      json({
+        private: repository.private,
+        default_branch: "main",
+        html_url: `https://github.com/${fullName}`,
+        has_wiki: true,
+        pushed_at: "2025-06-01T12:00:00Z",
+      });
+    } else if (rest[0] === "git") {
+      json({ tree: Object.entries(files).map(([path, text]) => ({ path, type: "blob", size: text.length })) });
+    } else {
+      response.writeHead(200, { "Content-Type": "text/plain" }).end(files[decodeURIComponent(rest.slice(1).join("/"))]);
+    }
+  }).listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+describe("loadRepositoryDocuments", () => {
+  test("loads the README, docs/ Markdown and wiki pages reachable from Home", async () => {
+    const documents = await loadRepositoryDocuments("Acme/Public", options("bob"));
+    assert.deepEqual(
+      documents.map((doc) => [doc.id, doc.title, doc.metadata.category]),
+      [
+        ["acme/public:README.md", "Acme", "readme"],
+        ["acme/public:docs/setup.md", "Setup", "docs"],
+        ["acme/public:wiki/Home", "Welcome", "wiki"],
+        ["acme/public:wiki/Getting-Started", "Getting Started", "wiki"],
+        ["acme/public:wiki/FAQ", "FAQ", "wiki"],
+      ],
+    );
+    assert.equal(documents[0].metadata.version, "2025-06-01");
+    assert.equal(documents[0].url, "https://github.com/acme/public/blob/main/README.md");
+    assert.ok(documents.every((doc) => doc.metadata.access === undefined));
+  });
+
+  test("stays within the free plan's 50 subrequests however many wiki links there are", async () => {
+    requests = [];
+    await loadRepositoryDocuments("acme/public", options("bob"));
+    assert.equal(requests.filter((path) => path.startsWith("/wiki/")).length, 15, "missing pages count too");
+    assert.ok(requests.length <= 50);
+  });
+
+  test("tags the pages of a private repository with it, so documentAccess hides them", async () => {
+    const documents = await loadRepositoryDocuments("acme/private", options("alice"));
+    assert.ok(documents.length > 0);
+    assert.ok(documents.every((doc) => doc.metadata.access === "repo:acme/private"));
+    assert.equal(documents.some(documentAccess({ orgs: ["acme"] })), false);
+  });
+
+  test("a repository the token can't read is not found", async () => {
+    await assert.rejects(loadRepositoryDocuments("acme/private", options("bob")), /not found or not accessible/);
+  });
+});
+
+describe("ensureRepositoryIndexed", () => {
+  test("serves the indexed copy only to callers who can read the repository", async () => {
+    const search = new DeepWikiSearch(new MemoryDocumentStore([], []));
+    await search.load();
+
+    const documents = await ensureRepositoryIndexed(search, "acme/private", options("alice"));
+    assert.equal(documents.length, 5);
+
+    requests = [];
+    await assert.rejects(ensureRepositoryIndexed(search, "acme/private", options("bob")), /not found or not accessible/);
+    assert.deepEqual(requests, ["/repos/acme/private"], "the cached copy is not fetched again");
+
+    const alice = await ensureRepositoryIndexed(search, "acme/private", options("alice"));
+    assert.equal(alice.length, 5);
+
+    const { total } = await search.searchPassages("widget", { filter: documentAccess({}) });
+    assert.equal(total, 0, "private pages stay out of general search");
+  });
+
+  test("canReadRepositoryDocument checks the caller's token", async () => {
+    const [doc] = await loadRepositoryDocuments("acme/private", options("alice"));
+    assert.equal(await canReadRepositoryDocument(doc, options("alice")), true);
+    assert.equal(await canReadRepositoryDocument(doc, options("bob")), false);
+    const [publicDoc] = await loadRepositoryDocuments("acme/public", options("bob"));
+    assert.equal(await canReadRepositoryDocument(publicDoc, options("bob")), false);
+  });
+});
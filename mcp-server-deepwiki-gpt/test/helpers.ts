@@ -0,0 +1,47 @@
+// Shared fixtures for the unit tests (run with `npm test`).
+
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { DeepWikiDocument } from "../src/deepwiki-data";
+
+type DocumentOverrides = Partial<Omit<DeepWikiDocument, "metadata">> & { metadata?: Partial<DeepWikiDocument["metadata"]> };
+
+// A document with the given content; title, version, category and tags have neutral defaults
+export function makeDocument(id: string, content: string, overrides: DocumentOverrides = {}): DeepWikiDocument {
+  const { metadata, ...fields } = overrides;
+  return {
+    id,
+    title: id,
+    content,
+    ...fields,
+    metadata: { version: "1.0", category: "general", tags: [], ...metadata },
+  };
+}
+
+export type JsonRpcReply<Result> = { result?: Result; error?: { code: number; message: string; data?: unknown } };
+
+// Sends raw JSON-RPC requests to an McpServer over an in-memory transport, resolving with each response
+export async function connectServer(server: McpServer) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const pending = new Map<number, (response: JSONRPCMessage) => void>();
+  clientTransport.onmessage = (message) => {
+    if ("id" in message && typeof message.id === "number") {
+      pending.get(message.id)?.(message);
+      pending.delete(message.id);
+    }
+  };
+  await server.connect(serverTransport);
+  await clientTransport.start();
+
+  let nextId = 1;
+  return {
+    request<Result = Record<string, unknown>>(method: string, params?: Record<string, unknown>): Promise<JsonRpcReply<Result>> {
+      const id = nextId++;
+      return new Promise((resolve) => {
+        pending.set(id, (response) => resolve(response as JsonRpcReply<Result>));
+        void clientTransport.send({ jsonrpc: "2.0", id, method, params });
+      });
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  dispatchJsonRpc,
+  INTERNAL_ERROR,
+  INVALID_PARAMS,
+  INVALID_REQUEST,
+  JsonRpcError,
+  type JsonRpcMethodHandler,
+  METHOD_NOT_FOUND,
+} from "../src/jsonrpc";
+
+// Echoes params for "echo", fails with a protocol error for "missing" and with an internal error for "crash"
+const handler: JsonRpcMethodHandler = async (method, params) => {
+  switch (method) {
+    case "echo":
+      return params ?? {};
+    case "crash":
+      throw new Error("connect ECONNREFUSED 10.0.0.5:5432");
+    default:
+      throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+};
+
+describe("dispatchJsonRpc", () => {
+  test("answers a request with its id", async () => {
+    assert.deepEqual(await dispatchJsonRpc({ jsonrpc: "2.0", id: 1, method: "echo", params: { a: 1 } }, handler), {
+      jsonrpc: "2.0",
+      id: 1,
+      result: { a: 1 },
+    });
+  });
+
+  test("echoes a null id", async () => {
+    assert.deepEqual(await dispatchJsonRpc({ jsonrpc: "2.0", id: null, method: "echo" }, handler), {
+      jsonrpc: "2.0",
+      id: null,
+      result: {},
+    });
+  });
+
+  test("rejects ids that are neither strings, numbers nor null", async () => {
+    const response = await dispatchJsonRpc({ jsonrpc: "2.0", id: { nested: true }, method: "echo" }, handler);
+    assert.deepEqual(response, {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: INVALID_REQUEST, message: "Invalid Request: id must be a string, number or null" },
+    });
+  });
+
+  test("rejects messages that aren't JSON-RPC 2.0 requests", async () => {
+    for (const message of [null, "echo", { id: 2, method: "echo" }, { jsonrpc: "2.0", id: 2 }]) {
+      const response = await dispatchJsonRpc(message, handler);
+      assert.ok(response && !Array.isArray(response) && "error" in response);
+      assert.equal(response.error.code, INVALID_REQUEST);
+    }
+  });
+
+  test("params must be an object", async () => {
+    const response = await dispatchJsonRpc({ jsonrpc: "2.0", id: 3, method: "echo", params: [1, 2] }, handler);
+    assert.deepEqual(response, {
+      jsonrpc: "2.0",
+      id: 3,
+      error: { code: INVALID_PARAMS, message: "Invalid params: params must be an object" },
+    });
+  });
+
+  test("passes on the code, message and data of a JsonRpcError", async () => {
+    const response = await dispatchJsonRpc({ jsonrpc: "2.0", id: "a", method: "missing" }, handler);
+    assert.deepEqual(response, { jsonrpc: "2.0", id: "a", error: { code: METHOD_NOT_FOUND, message: "Method not found: missing" } });
+  });
+
+  test("hides the details of other errors", async () => {
+    const response = await dispatchJsonRpc({ jsonrpc: "2.0", id: 4, method: "crash" }, handler);
+    assert.deepEqual(response, { jsonrpc: "2.0", id: 4, error: { code: INTERNAL_ERROR, message: "Internal error" } });
+  });
+
+  test("notifications get no response, not even for errors", async () => {
+    assert.equal(await dispatchJsonRpc({ jsonrpc: "2.0", method: "echo" }, handler), null);
+    assert.equal(await dispatchJsonRpc({ jsonrpc: "2.0", method: "crash" }, handler), null);
+    assert.equal(await dispatchJsonRpc({ jsonrpc: "2.0", method: "echo", params: "bad" }, handler), null);
+  });
+
+  test("answers a batch in order, leaving out notifications", async () => {
+    const responses = await dispatchJsonRpc(
+      [
+        { jsonrpc: "2.0", id: 1, method: "echo", params: { n: 1 } },
+        { jsonrpc: "2.0", method: "echo" },
+        { jsonrpc: "2.0", id: 2, method: "missing" },
+        "garbage",
+      ],
+      handler,
+    );
+    assert.ok(Array.isArray(responses));
+    assert.deepEqual(
+      responses.map((response) => [response.id, "result" in response ? response.result : response.error.code]),
+      [
+        [1, { n: 1 }],
+        [2, METHOD_NOT_FOUND],
+        [null, INVALID_REQUEST],
+      ],
+    );
+  });
+
+  test("a batch of notifications gets no response", async () => {
+    assert.equal(
+      await dispatchJsonRpc(
+        [
+          { jsonrpc: "2.0", method: "echo" },
+          { jsonrpc: "2.0", method: "echo" },
+        ],
+        handler,
+      ),
+      null,
+    );
+  });
+
+  test("an empty batch is an invalid request", async () => {
+    assert.deepEqual(await dispatchJsonRpc([], handler), {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: INVALID_REQUEST, message: "Invalid Request: empty batch" },
+    });
+  });
+});
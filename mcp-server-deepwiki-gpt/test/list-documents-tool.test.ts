@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { countFacets, DeepWikiSearch } from "../src/deepwiki-data";
+import { MemoryDocumentStore } from "../src/document-store";
+import { listDocumentsTool } from "../src/tools/list-documents";
+import { type ToolContext, ToolRegistry } from "../src/tools/registry";
+import { makeDocument } from "./helpers";
+
+const documents = [
+  makeDocument("tools", "Tools.", { title: "Tools", metadata: { category: "Concepts", tags: ["tools", "tools"] } }),
+  makeDocument("prompts", "Prompts.", { title: "Prompts", metadata: { category: "Concepts", tags: ["prompts"], version: "2.0" } }),
+  makeDocument("oauth", "OAuth.", { title: "OAuth", metadata: { category: "security", tags: ["auth"] } }),
+  makeDocument("internal", "Internal.", { title: "Internal", metadata: { category: "internal" } }),
+];
+
+test("countFacets counts documents per value, most common first, then by name", () => {
+  assert.deepEqual(countFacets(documents), {
+    category: [
+      { value: "Concepts", count: 2 },
+      { value: "internal", count: 1 },
+      { value: "security", count: 1 },
+    ],
+    tags: [
+      { value: "auth", count: 1 },
+      { value: "prompts", count: 1 },
+      { value: "tools", count: 1 },
+    ],
+    version: [
+      { value: "1.0", count: 3 },
+      { value: "2.0", count: 1 },
+    ],
+  });
+});
+
+describe("list_documents tool", async () => {
+  const search = new DeepWikiSearch(new MemoryDocumentStore(documents, []));
+  await search.load();
+  const context = { search, props: {}, env: {}, canRead: (doc: { id: string }) => doc.id !== "internal" } as unknown as ToolContext;
+  const registry = new ToolRegistry().register(listDocumentsTool);
+  const list = (args: Record<string, unknown> = {}) => registry.call("list_documents", args, context, true);
+
+  test("without a category, lists the categories of readable documents", async () => {
+    assert.deepEqual((await list()).structuredContent, {
+      total: 3,
+      categories: [
+        { value: "Concepts", count: 2 },
+        { value: "security", count: 1 },
+      ],
+    });
+  });
+
+  test("with a category, lists its documents by title, matching the name case-insensitively", async () => {
+    const { structuredContent } = await list({ category: "concepts" });
+    assert.equal(structuredContent?.category, "Concepts");
+    assert.deepEqual(
+      (structuredContent?.documents as { id: string; version: string }[]).map((doc) => [doc.id, doc.version]),
+      [
+        ["prompts", "2.0"],
+        ["tools", "1.0"],
+      ],
+    );
+  });
+
+  test("an unknown or unreadable category is an error", async () => {
+    for (const category of ["missing", "internal"]) {
+      const result = await list({ category });
+      assert.equal(result.isError, true);
+      assert.match((result.content[0] as { text: string }).text, new RegExp(`No documents in category ${category}`));
+    }
+  });
+});
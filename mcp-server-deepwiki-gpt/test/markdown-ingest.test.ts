@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { DocumentValidationError, parseMarkdownDocument, slugFromFileName } from "../src/markdown-ingest";
+
+// The issues a file fails validation with, or undefined if it parses
+function issuesOf(source: string, markdown: string) {
+  try {
+    parseMarkdownDocument(source, markdown);
+    return undefined;
+  } catch (error) {
+    assert.ok(error instanceof DocumentValidationError);
+    assert.equal(error.source, source);
+    return error.issues;
+  }
+}
+
+describe("parseMarkdownDocument", () => {
+  test("reads the fields from front-matter and the body", () => {
+    const doc = parseMarkdownDocument(
+      "tools.md",
+      [
+        "---",
+        "id: mcp-tools",
+        "url: https://modelcontextprotocol.io/docs/concepts/tools",
+        "version: 2024-11-25",
+        "category: tools",
+        "tags: tools, functions",
+        "access: org:acme",
+        "---",
+        "# MCP Tools",
+        "Tools let servers expose actions.",
+        "",
+      ].join("\n"),
+    );
+    assert.deepEqual(doc, {
+      id: "mcp-tools",
+      title: "MCP Tools",
+      content: "# MCP Tools\nTools let servers expose actions.",
+      url: "https://modelcontextprotocol.io/docs/concepts/tools",
+      metadata: { version: "2024-11-25", category: "tools", tags: ["tools", "functions"], access: "org:acme" },
+    });
+  });
+
+  test("accepts metadata nested under metadata: and numeric versions", () => {
+    const doc = parseMarkdownDocument(
+      "Getting Started.md",
+      "---\ntitle: Start here\nmetadata:\n  version: 2\n  category: guides\n  tags: [intro]\n---\nBody",
+    );
+    assert.equal(doc.id, "getting-started");
+    assert.equal(doc.title, "Start here");
+    const { version, category, tags } = doc.metadata;
+    assert.deepEqual({ version, category, tags }, { version: "2", category: "guides", tags: ["intro"] });
+  });
+
+  test("reports every invalid field", () => {
+    assert.deepEqual(issuesOf("empty.md", "---\nversion: 1.0\nurl: not a url\n---\nNo heading"), [
+      { field: "title", message: "Required" },
+      { field: "url", message: "Invalid url" },
+      { field: "metadata.category", message: "Required" },
+    ]);
+  });
+
+  test("front-matter must be a YAML mapping", () => {
+    assert.deepEqual(issuesOf("list.md", "---\n- a\n- b\n---\n# Title"), [{ field: "front-matter", message: "must be a YAML mapping" }]);
+    assert.equal(issuesOf("broken.md", "---\ntags: [unclosed\n---\n# Title")?.[0].field, "front-matter");
+  });
+
+  test("versions must not contain @", () => {
+    assert.deepEqual(issuesOf("doc.md", "---\nversion: 1@2\ncategory: guides\n---\n# Doc"), [
+      { field: "metadata.version", message: "must not contain @" },
+    ]);
+  });
+});
+
+test("slugFromFileName drops the directory and extension", () => {
+  assert.equal(slugFromFileName("docs/Getting Started.md"), "getting-started");
+  assert.equal(slugFromFileName("C:\\notes\\API_Reference.markdown"), "api-reference");
+});
@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { INVALID_PARAMS, JsonRpcError } from "../src/jsonrpc";
+import { paginate } from "../src/pagination";
+
+describe("paginate", () => {
+  const items = Array.from({ length: 7 }, (_, i) => i);
+
+  test("walks every item once, page by page", () => {
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const { page, nextCursor } = paginate(items, cursor, 3);
+      seen.push(...page);
+      cursor = nextCursor;
+    } while (cursor);
+    assert.deepEqual(seen, items);
+  });
+
+  test("the last page has no nextCursor", () => {
+    assert.equal(paginate(items, undefined, 10).nextCursor, undefined);
+  });
+
+  test("an invalid cursor is an invalid params error", () => {
+    assert.throws(
+      () => paginate(items, "not a cursor"),
+      (error) => error instanceof JsonRpcError && error.code === INVALID_PARAMS,
+    );
+  });
+});
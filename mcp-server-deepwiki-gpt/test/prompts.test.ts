@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { EmbeddedResource, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { DeepWikiSearch } from "../src/deepwiki-data";
+import { MemoryDocumentStore } from "../src/document-store";
+import { INVALID_PARAMS, JsonRpcError } from "../src/jsonrpc";
+import { getPrompt, listPrompts, promptNames } from "../src/prompts";
+import { makeDocument } from "./helpers";
+
+const canRead = (doc: { id: string }) => doc.id !== "internal-security";
+
+describe("prompts", async () => {
+  const search = new DeepWikiSearch(
+    new MemoryDocumentStore(
+      [
+        makeDocument("security", "Validate tokens and scope them narrowly.", { metadata: { category: "security" } }),
+        makeDocument("internal-security", "Internal incident notes.", { metadata: { category: "security" } }),
+        makeDocument("stdio", "The stdio transport runs the server as a subprocess."),
+        makeDocument("streamable-http", "The Streamable HTTP transport serves many clients."),
+        makeDocument("sampling", "Sampling lets servers request completions."),
+      ],
+      [],
+    ),
+  );
+  await search.load();
+
+  test("prompts/list describes each prompt's arguments", () => {
+    const { prompts, nextCursor } = listPrompts(undefined);
+    assert.deepEqual(
+      prompts.map((prompt) => prompt.name),
+      promptNames(),
+    );
+    assert.equal(nextCursor, undefined);
+    assert.deepEqual(prompts.find((prompt) => prompt.name === "compare_transports")?.arguments, [
+      { name: "transports", description: 'Transports to compare, e.g. "stdio, Streamable HTTP" (default: all of them).', required: false },
+      { name: "useCase", description: "What the server is for and where it runs, to base a recommendation on.", required: false },
+    ]);
+  });
+
+  test("embeds the readable documents as resources ahead of the task", async () => {
+    const { messages } = await getPrompt(search, "review_server_security", { server: "app.get('/tools')" }, canRead);
+    const [resource, task] = messages.map((message) => message.content);
+    assert.equal(messages.length, 2, "the unreadable security document is left out");
+    assert.deepEqual((resource as EmbeddedResource).resource, {
+      uri: "deepwiki://docs/security",
+      mimeType: "text/markdown",
+      text: "Validate tokens and scope them narrowly.",
+    });
+    assert.match((task as TextContent).text, /app\.get\('\/tools'\)$/);
+  });
+
+  test("optional arguments shape the task", async () => {
+    const { messages } = await getPrompt(search, "compare_transports", { useCase: "a hosted server" }, canRead);
+    const embedded = messages.slice(0, -1).map((message) => (message.content as EmbeddedResource).resource.uri);
+    assert.deepEqual(embedded.sort(), ["deepwiki://docs/stdio", "deepwiki://docs/streamable-http"]);
+    const task = (messages[messages.length - 1].content as TextContent).text;
+    assert.match(task, /^Compare the MCP transports/);
+    assert.match(task, /recommend one for this use case: a hosted server/);
+  });
+
+  test("unknown prompts and invalid arguments are -32602 errors", async () => {
+    const invalid = (name: string, args: unknown, message: RegExp) =>
+      assert.rejects(getPrompt(search, name, args, canRead), (error) => {
+        assert.ok(error instanceof JsonRpcError);
+        assert.equal(error.code, INVALID_PARAMS);
+        assert.match(error.message, message);
+        return true;
+      });
+
+    await invalid("missing", {}, /Unknown prompt: missing/);
+    await invalid("explain_concept", {}, /concept: Required/);
+    await invalid("explain_concept", { concept: "" }, /concept: String must contain at least 1 character/);
+    await invalid("explain_concept", { concept: "sampling", extra: "x" }, /arguments: Unrecognized key\(s\) in object: 'extra'/);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { matchesFilter, parseQuery } from "../src/query-parser";
+import { makeDocument } from "./helpers";
+
+describe("parseQuery", () => {
+  test("words are separate groups, so all of them are required", () => {
+    const query = parseQuery("oauth tokens");
+    assert.deepEqual(
+      query.groups.map((group) => group.map((clause) => clause.terms)),
+      [[["oauth"]], [["token"]]],
+    );
+  });
+
+  test("OR joins a clause to the previous group", () => {
+    const query = parseQuery("oauth OR jwt security");
+    assert.deepEqual(
+      query.groups.map((group) => group.map((clause) => clause.text)),
+      [["oauth", "jwt"], ["security"]],
+    );
+  });
+
+  test("a leading or dangling OR is ignored", () => {
+    assert.deepEqual(
+      parseQuery("OR oauth OR").groups.map((group) => group.map((clause) => clause.text)),
+      [["oauth"]],
+    );
+  });
+
+  test("quoted phrases are one clause with their terms in order", () => {
+    const [[clause]] = parseQuery('"access tokens"').groups;
+    assert.deepEqual(clause, { text: "access tokens", terms: ["access", "token"] });
+  });
+
+  test("an unclosed quote runs to the end of the query", () => {
+    const [[clause]] = parseQuery('"server sent events').groups;
+    assert.equal(clause.text, "server sent events");
+  });
+
+  test("exclusions apply to words and phrases", () => {
+    const query = parseQuery('deploy -docker -"local dev"');
+    assert.deepEqual(
+      query.excluded.map((clause) => clause.text),
+      ["docker", "local dev"],
+    );
+    assert.equal(query.groups.length, 1);
+  });
+
+  test("field filters are parsed, including negated and quoted ones", () => {
+    const query = parseQuery('tag:security -category:draft version:"2024-11-25"');
+    assert.deepEqual(query.filters, [
+      { field: "tag", value: "security", negated: false },
+      { field: "category", value: "draft", negated: true },
+      { field: "version", value: "2024-11-25", negated: false },
+    ]);
+    assert.equal(query.groups.length, 0);
+  });
+
+  test("unknown prefixes are ordinary text", () => {
+    const [[clause]] = parseQuery("http://localhost").groups;
+    assert.equal(clause.text, "http://localhost");
+    assert.deepEqual(clause.terms, ["http", "localhost"]);
+  });
+
+  test("stop-words and punctuation alone produce no clauses", () => {
+    assert.deepEqual(parseQuery("the ++ of").groups, []);
+  });
+});
+
+describe("matchesFilter", () => {
+  const doc = makeDocument("doc", "", { metadata: { version: "2024-11-25", category: "Security", tags: ["OAuth", "auth"] } });
+
+  test("compares whole values ignoring case", () => {
+    assert.equal(matchesFilter(doc, { field: "tag", value: "oauth", negated: false }), true);
+    assert.equal(matchesFilter(doc, { field: "tag", value: "oau", negated: false }), false);
+    assert.equal(matchesFilter(doc, { field: "category", value: "security", negated: false }), true);
+    assert.equal(matchesFilter(doc, { field: "version", value: "2024-11-25", negated: false }), true);
+  });
+
+  test("negated filters invert the match", () => {
+    assert.equal(matchesFilter(doc, { field: "category", value: "security", negated: true }), false);
+    assert.equal(matchesFilter(doc, { field: "tag", value: "draft", negated: true }), true);
+  });
+});
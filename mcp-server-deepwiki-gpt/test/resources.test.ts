@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { InitializeResult, ListResourcesResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { DeepWikiSearch } from "../src/deepwiki-data";
+import { MemoryDocumentStore } from "../src/document-store";
+import {
+  documentFingerprint,
+  documentUri,
+  parseDocumentUri,
+  registerResourcesWithServer,
+  RESOURCE_NOT_FOUND,
+  type ResourceSubscriptions,
+} from "../src/resources";
+import { connectServer, makeDocument } from "./helpers";
+
+const documents = [
+  makeDocument("guide", "Old guide.", { metadata: { version: "1.0" } }),
+  makeDocument("guide", "New guide.", { metadata: { version: "2.0" } }),
+  makeDocument("acme/app:wiki/Home", "Wiki home."),
+  makeDocument("secret", "Hidden."),
+  ...Array.from({ length: 60 }, (_, i) => makeDocument(`page-${i}`, `Page ${i}.`)),
+];
+const canRead = (doc: { id: string }) => doc.id !== "secret";
+
+// Records what the server asks a session to subscribe to
+class FakeSubscriptions implements ResourceSubscriptions {
+  subscribed = new Map<string, string>();
+
+  async subscribe(uri: string, doc: { content: string }) {
+    this.subscribed.set(uri, doc.content);
+  }
+
+  async unsubscribe(uri: string) {
+    this.subscribed.delete(uri);
+  }
+}
+
+async function connect(subscriptions?: ResourceSubscriptions) {
+  const search = new DeepWikiSearch(new MemoryDocumentStore(documents, []));
+  await search.load();
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+  registerResourcesWithServer(server, async () => search, canRead, subscriptions);
+  const session = await connectServer(server);
+  const init = await session.request<InitializeResult>("initialize", {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  });
+  return { session, capabilities: init.result?.capabilities };
+}
+
+describe("document URIs", () => {
+  test("percent-encode IDs and parse back", () => {
+    const uri = documentUri("acme/app:wiki/Home");
+    assert.equal(uri, "deepwiki://docs/acme%2Fapp%3Awiki%2FHome");
+    assert.equal(parseDocumentUri(uri), "acme/app:wiki/Home");
+  });
+
+  test("anything else is not a document URI", () => {
+    for (const uri of ["deepwiki://docs/", "deepwiki://other/guide", "https://example.com/guide", "deepwiki://docs/%E0%A4%A"]) {
+      assert.equal(parseDocumentUri(uri), null, uri);
+    }
+  });
+});
+
+describe("registerResourcesWithServer", () => {
+  test("lists readable documents 50 at a time", async () => {
+    const { session } = await connect();
+    const first = await session.request<ListResourcesResult>("resources/list");
+    assert.equal(first.result?.resources.length, 50);
+    assert.equal(
+      first.result?.resources.some((resource) => resource.name === "secret"),
+      false,
+    );
+
+    const second = await session.request<ListResourcesResult>("resources/list", { cursor: first.result?.nextCursor });
+    assert.equal(second.result?.resources.length, 12);
+    assert.equal(second.result?.nextCursor, undefined);
+  });
+
+  test("reads the latest revision, or an earlier one by @version", async () => {
+    const { session } = await connect();
+    const read = async (uri: string) => (await session.request<ReadResourceResult>("resources/read", { uri })).result?.contents[0];
+    assert.deepEqual(await read("deepwiki://docs/guide"), { uri: "deepwiki://docs/guide", mimeType: "text/markdown", text: "New guide." });
+    assert.equal((await read("deepwiki://docs/guide@1.0"))?.text, "Old guide.");
+    assert.equal((await read(documentUri("acme/app:wiki/Home")))?.text, "Wiki home.");
+  });
+
+  test("unknown and unreadable documents are not found", async () => {
+    const { session } = await connect();
+    for (const uri of ["deepwiki://docs/missing", "deepwiki://docs/secret", "deepwiki://docs/guide@9.0"]) {
+      const { error } = await session.request("resources/read", { uri });
+      assert.equal(error?.code, RESOURCE_NOT_FOUND, uri);
+      assert.equal(error?.message, `Resource not found: ${uri}`);
+    }
+  });
+
+  test("subscriptions are advertised and served only with somewhere to keep them", async () => {
+    const stateless = await connect();
+    assert.deepEqual(stateless.capabilities?.resources, { subscribe: false });
+    assert.equal((await stateless.session.request("resources/subscribe", { uri: "deepwiki://docs/guide" })).error?.code, -32601);
+
+    const subscriptions = new FakeSubscriptions();
+    const { session, capabilities } = await connect(subscriptions);
+    assert.deepEqual(capabilities?.resources, { subscribe: true });
+
+    await session.request("resources/subscribe", { uri: "deepwiki://docs/guide" });
+    assert.deepEqual([...subscriptions.subscribed], [["deepwiki://docs/guide", "New guide."]]);
+    const { error } = await session.request("resources/subscribe", { uri: "deepwiki://docs/secret" });
+    assert.equal(error?.code, RESOURCE_NOT_FOUND);
+
+    await session.request("resources/unsubscribe", { uri: "deepwiki://docs/guide" });
+    assert.equal(subscriptions.subscribed.size, 0);
+  });
+});
+
+test("documentFingerprint changes with the document and is empty for a missing one", async () => {
+  const [older, newer] = documents;
+  assert.equal(await documentFingerprint(null), "");
+  assert.match(await documentFingerprint(older), /^[0-9a-f]{64}$/);
+  assert.equal(await documentFingerprint(older), await documentFingerprint({ ...older }));
+  assert.notEqual(await documentFingerprint(older), await documentFingerprint(newer));
+});
@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { chunkDocument } from "../src/chunking";
+import { parseQuery } from "../src/query-parser";
+import { InvertedIndex } from "../src/search-index";
+import type { DeepWikiDocument } from "../src/deepwiki-data";
+import { makeDocument } from "./helpers";
+
+function buildIndex(documents: DeepWikiDocument[]): InvertedIndex {
+  return new InvertedIndex(documents.flatMap(chunkDocument));
+}
+
+function ids(index: InvertedIndex, query: string): string[] {
+  return index.search(query).map((result) => result.chunk.document.id);
+}
+
+describe("InvertedIndex ranking", () => {
+  test("a title match outranks the same word in the body", () => {
+    const index = buildIndex([
+      makeDocument("body", "Notes on the sampling API and how clients use it."),
+      makeDocument("title", "Notes on the API and how clients use it.", { title: "Sampling" }),
+    ]);
+    assert.deepEqual(ids(index, "sampling"), ["title", "body"]);
+  });
+
+  test("more occurrences rank higher, with saturation", () => {
+    const index = buildIndex([
+      makeDocument("once", "Transport details. Other words pad this section out to a similar length here."),
+      makeDocument("thrice", "Transport details. Transport options. Transport choices and similar length here."),
+    ]);
+    const [first, second] = index.search("transport");
+    assert.equal(first.chunk.document.id, "thrice");
+    assert.ok(first.score > second.score);
+    assert.ok(first.score < second.score * 3, "term frequency saturates");
+  });
+
+  test("rare terms weigh more than common ones", () => {
+    const index = buildIndex([
+      makeDocument("common", "server server server"),
+      makeDocument("rare", "server elicitation"),
+      makeDocument("other", "server"),
+    ]);
+    assert.equal(ids(index, "server elicitation")[0], "rare");
+  });
+
+  test("stemming matches other forms of a word", () => {
+    const index = buildIndex([makeDocument("doc", "Servers expose tooling to clients.")]);
+    assert.deepEqual(ids(index, "server tools"), ["doc"]);
+  });
+
+  test("equal scores are ordered by chunk ID", () => {
+    const index = buildIndex([makeDocument("b", "prompt"), makeDocument("a", "prompt"), makeDocument("c", "prompt")]);
+    assert.deepEqual(ids(index, "prompt"), ["a", "b", "c"]);
+  });
+
+  test("tags and category are searchable", () => {
+    const index = buildIndex([
+      makeDocument("tagged", "Nothing relevant.", { metadata: { category: "security", tags: ["oauth"] } }),
+      makeDocument("plain", "Nothing relevant."),
+    ]);
+    assert.deepEqual(ids(index, "oauth"), ["tagged"]);
+    assert.deepEqual(ids(index, "security"), ["tagged"]);
+  });
+
+  test("counts the chunks containing a term", () => {
+    const index = buildIndex([makeDocument("a", "prompt"), makeDocument("b", "prompts"), makeDocument("c", "tools")]);
+    assert.equal(index.size, 3);
+    assert.equal(index.documentFrequency("prompt"), 2);
+    assert.equal(index.documentFrequency("missing"), 0);
+  });
+});
+
+describe("InvertedIndex query semantics", () => {
+  const index = buildIndex([
+    makeDocument("both", "Use an access token for OAuth.", { metadata: { category: "security", tags: ["auth"] } }),
+    makeDocument("reversed", "The token grants access to resources.", { metadata: { category: "security" } }),
+    makeDocument("oauth", "OAuth flows for remote servers.", { metadata: { category: "guides", version: "2.0" } }),
+  ]);
+
+  test("every group must match when some chunk has them all", () => {
+    assert.deepEqual(ids(index, "token oauth"), ["both"]);
+  });
+
+  test("falls back to chunks matching any group when none match all", () => {
+    assert.deepEqual(ids(index, "resources remote").sort(), ["oauth", "reversed"]);
+  });
+
+  test("phrases only match adjacent terms in order", () => {
+    assert.deepEqual(ids(index, '"access token"'), ["both"]);
+    assert.deepEqual(ids(index, '"token grants"'), ["reversed"]);
+  });
+
+  test("OR groups match either clause", () => {
+    assert.deepEqual(ids(index, "grants OR remote").sort(), ["oauth", "reversed"]);
+  });
+
+  test("exclusions remove matching chunks", () => {
+    assert.deepEqual(ids(index, "token -oauth"), ["reversed"]);
+    assert.deepEqual(ids(index, 'token -"access token"'), ["reversed"]);
+  });
+
+  test("filters restrict results by metadata", () => {
+    assert.deepEqual(ids(index, "oauth category:guides"), ["oauth"]);
+    assert.deepEqual(ids(index, "oauth -category:guides"), ["both"]);
+    assert.deepEqual(ids(index, "tag:auth"), ["both"]);
+    assert.deepEqual(ids(index, "version:2.0"), ["oauth"]);
+  });
+
+  test("a filter-only query returns every chunk passing the filter", () => {
+    assert.deepEqual(ids(index, "category:security").sort(), ["both", "reversed"]);
+  });
+
+  test("a query of stop-words finds nothing", () => {
+    assert.deepEqual(ids(index, "the of and"), []);
+  });
+
+  test("accepts() applies exclusions and filters to chunks found elsewhere", () => {
+    const [chunk] = chunkDocument(makeDocument("unknown", "oauth"));
+    assert.equal(index.accepts(chunk, parseQuery("oauth")), false, "chunks outside the index are rejected");
+    const reversed = index.search("grants")[0].chunk;
+    assert.equal(index.accepts(reversed, parseQuery("anything category:security")), true);
+    assert.equal(index.accepts(reversed, parseQuery("anything -grants")), false);
+  });
+});
+
+describe("InvertedIndex typo tolerance", () => {
+  const index = buildIndex([
+    makeDocument("auth", "Authentication with OAuth and authorization servers."),
+    makeDocument("transport", "Streamable HTTP transport and stdio."),
+  ]);
+
+  test("expand() keeps the original clause and ORs in close vocabulary terms, weighted below 1", () => {
+    const { query, weights } = index.expand(parseQuery("authentcation"));
+    const [group] = query.groups;
+    assert.equal(group[0].text, "authentcation");
+    assert.ok(group.some((clause) => clause.text === "authentication"));
+    for (const clause of group.slice(1)) {
+      const weight = weights.get(clause.terms[0]);
+      assert.ok(weight !== undefined && weight < 1);
+    }
+    assert.deepEqual(
+      index.search(query, weights).map((result) => result.chunk.document.id),
+      ["auth"],
+    );
+  });
+
+  test("expand() leaves known words alone", () => {
+    const { query, weights } = index.expand(parseQuery("transport"));
+    assert.equal(query.groups[0].length, 1);
+    assert.equal(weights.size, 0);
+  });
+
+  test("expand() corrects phrases word by word", () => {
+    const { query } = index.expand(parseQuery('"streamable transprot"'));
+    assert.deepEqual(
+      query.groups[0].map((clause) => clause.terms),
+      [
+        ["streamabl", "transprot"],
+        ["streamabl", "transport"],
+      ],
+    );
+  });
+
+  test("short words must match exactly", () => {
+    assert.equal(index.expand(parseQuery("htp")).query.groups[0].length, 1);
+  });
+
+  test("suggest() replaces unknown words and keeps filters and OR", () => {
+    assert.equal(index.suggest("authentcation OR transprot tag:security"), "authentication OR transport tag:security");
+    assert.equal(index.suggest("authentication transport"), null);
+  });
+});
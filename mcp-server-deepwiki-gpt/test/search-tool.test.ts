@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { DeepWikiSearch } from "../src/deepwiki-data";
+import { MemoryDocumentStore } from "../src/document-store";
+import { INVALID_PARAMS, JsonRpcError } from "../src/jsonrpc";
+import { ToolRegistry, type ToolContext } from "../src/tools/registry";
+import { searchTool } from "../src/tools/search";
+import { connectServer, makeDocument } from "./helpers";
+
+describe("search tool", async () => {
+  const search = new DeepWikiSearch(
+    new MemoryDocumentStore(
+      Array.from({ length: 3 }, (_, i) => makeDocument(`doc-${i}`, "Prompts and resources.")),
+      [],
+    ),
+  );
+  await search.load();
+  const context = { search, props: {}, env: {}, canRead: () => true } as unknown as ToolContext;
+  const registry = new ToolRegistry().register(searchTool);
+  const call = (args: Record<string, unknown>) => registry.call("search", args, context, true);
+  const isInvalidParams = (error: unknown) => error instanceof JsonRpcError && error.code === INVALID_PARAMS;
+
+  test("pages through results with nextCursor", async () => {
+    const first = await call({ query: "prompts", limit: 2 });
+    const { results, nextCursor } = first.structuredContent as { results: { id: string }[]; nextCursor: string };
+    assert.equal(results.length, 2);
+    const second = await call({ query: "prompts", limit: 2, cursor: nextCursor });
+    const rest = second.structuredContent as { results: { id: string }[]; nextCursor?: string };
+    assert.equal(rest.results.length, 1);
+    assert.equal(rest.nextCursor, undefined);
+  });
+
+  test("a malformed cursor is invalid params, like an invalid list cursor", async () => {
+    await assert.rejects(call({ query: "prompts", cursor: "not a cursor" }), isInvalidParams);
+  });
+
+  test("a cursor from another query is invalid params", async () => {
+    const { nextCursor } = (await call({ query: "prompts", limit: 1 })).structuredContent as { nextCursor: string };
+    await assert.rejects(call({ query: "resources", cursor: nextCursor }), isInvalidParams);
+  });
+
+  test("a cursor from another query is invalid params through an McpServer too", async () => {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    registry.registerWithServer(
+      server,
+      () => context,
+      () => "2025-06-18",
+    );
+    const session = await connectServer(server);
+    await session.request("initialize", {
+      protocolVersion: "2025-06-18",
+      capabilities: {},
+      clientInfo: { name: "test", version: "1.0.0" },
+    });
+
+    const { nextCursor } = (await call({ query: "prompts", limit: 1 })).structuredContent as { nextCursor: string };
+    const response = await session.request("tools/call", { name: "search", arguments: { query: "resources", cursor: nextCursor } });
+    assert.equal(response.error?.code, INVALID_PARAMS);
+    assert.match(response.error?.message ?? "", /cursor: invalid cursor/);
+  });
+});
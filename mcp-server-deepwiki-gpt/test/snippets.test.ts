@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { buildSnippet, truncateText } from "../src/snippets";
+import { analyze } from "../src/text-analysis";
+
+describe("buildSnippet", () => {
+  test("highlights every form of the query terms", () => {
+    assert.equal(buildSnippet("Tools and tooling for servers.", analyze("tool")), "**Tools** and **tooling** for servers.");
+  });
+
+  test("strips Markdown emphasis and headings before highlighting", () => {
+    assert.equal(buildSnippet("## Usage\n**Bold** usage", analyze("usage")), "**Usage** Bold **usage**");
+  });
+
+  test("keeps the underscores of identifiers like __init__ and __dirname", () => {
+    assert.equal(
+      buildSnippet("Define __init__ in Python, or read __dirname in Node.", analyze("python node")),
+      "Define __init__ in **Python**, or read __dirname in **Node**.",
+    );
+    assert.equal(buildSnippet("A __strong claim__ about *node*.", analyze("claim")), "A strong **claim** about *node*.");
+  });
+
+  test("joins distant matches with ellipses", () => {
+    const filler = "lorem ipsum dolor sit amet ".repeat(20);
+    const snippet = buildSnippet(`alpha ${filler} beta ${filler} gamma`, analyze("alpha gamma"), { maxLength: 200, maxFragments: 2 });
+    assert.match(snippet, /^\*\*alpha\*\* .* \.\.\. .*\*\*gamma\*\*$/);
+    assert.ok(snippet.replace(/\*\*/g, "").length <= 220);
+  });
+
+  test("uses custom highlight markup", () => {
+    assert.equal(buildSnippet("oauth flow", analyze("oauth"), { highlight: ["<mark>", "</mark>"] }), "<mark>oauth</mark> flow");
+  });
+
+  test("falls back to the start of the text without a match", () => {
+    assert.equal(buildSnippet("Nothing to see here.", analyze("missing")), "Nothing to see here.");
+  });
+});
+
+describe("truncateText", () => {
+  test("cuts at a word boundary near the limit", () => {
+    assert.equal(truncateText("one two three four", 15), "one two three...");
+    assert.equal(truncateText("short", 15), "short");
+  });
+});
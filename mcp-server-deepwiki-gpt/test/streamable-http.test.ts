@@ -0,0 +1,319 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { MCP_LOGIN_HEADER, MCP_SESSION_HEADER, serveStreamableHttp, StreamableHttpSessionTransport } from "../src/streamable-http";
+
+// Just enough of SqlStorage for the mcp_events queries the transport runs
+
+class FakeSql {
+  rows: { seq: number; stream_id: string; message: string }[] = [];
+  private nextSeq = 1;
+
+  exec(query: string, ...bindings: (string | number)[]) {
+    let result: Record<string, unknown>[] = [];
+    if (query.startsWith("INSERT INTO mcp_events")) {
+      const row = { seq: this.nextSeq++, stream_id: String(bindings[0]), message: String(bindings[1]) };
+      this.rows.push(row);
+      result = [{ seq: row.seq }];
+    } else if (query.startsWith("DELETE FROM mcp_events WHERE seq <=")) {
+      this.rows = this.rows.filter((row) => row.seq > Number(bindings[0]));
+    } else if (query.startsWith("DELETE FROM mcp_events WHERE stream_id =")) {
+      this.rows = this.rows.filter((row) => row.stream_id !== bindings[0]);
+    } else if (query.startsWith("SELECT seq, message FROM mcp_events")) {
+      result = this.rows.filter((row) => row.stream_id === bindings[0] && row.seq > Number(bindings[1]));
+    } else if (!query.startsWith("CREATE TABLE")) {
+      throw new Error(`Unexpected query: ${query}`);
+    }
+    return { one: () => result[0], toArray: () => result };
+  }
+}
+
+function createTransport(sql = new FakeSql()) {
+  const transport = new StreamableHttpSessionTransport(sql as unknown as SqlStorage, "session-1");
+  return { transport, sql };
+}
+
+function post(messages: JSONRPCMessage[]): Request {
+  return new Request("https://example.com/streamable-http-session", { method: "POST", body: JSON.stringify(messages) });
+}
+
+function get(lastEventId?: string): Request {
+  return new Request("https://example.com/streamable-http-session", {
+    headers: lastEventId ? { "last-event-id": lastEventId } : {},
+  });
+}
+
+// Reads SSE events until `count` have arrived or the stream ends
+async function readEvents(response: Response, count = Infinity): Promise<{ id: string; data: unknown }[]> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: { id: string; data: unknown }[] = [];
+  let buffer = "";
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const event = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const id = /^id: (.*)$/m.exec(event)?.[1] ?? "";
+      const data = /^data: (.*)$/m.exec(event)?.[1];
+      events.push({ id, data: data && JSON.parse(data) });
+    }
+  }
+  reader.releaseLock();
+  return events;
+}
+
+const ping = (id: number): JSONRPCMessage => ({ jsonrpc: "2.0", id, method: "ping" });
+const notification = (n: number): JSONRPCMessage => ({ jsonrpc: "2.0", method: "notifications/message", params: { n } });
+
+describe("StreamableHttpSessionTransport", () => {
+  test("answers a POST on its own SSE stream and then closes it", async () => {
+    const { transport, sql } = createTransport();
+    transport.onmessage = (message) => {
+      if ("id" in message) {
+        void transport.send({ jsonrpc: "2.0", id: message.id, result: {} });
+      }
+    };
+    await transport.start();
+
+    const response = await transport.handleRequest(post([ping(1)]));
+    assert.equal(response.headers.get("content-type"), "text/event-stream");
+    assert.equal(response.headers.get(MCP_SESSION_HEADER), "session-1");
+    const events = await readEvents(response);
+    assert.deepEqual(
+      events.map((event) => event.data),
+      [{ jsonrpc: "2.0", id: 1, result: {} }],
+    );
+    assert.equal(sql.rows.length, 0, "a delivered stream's events are deleted");
+  });
+
+  test("acknowledges notifications with 202 and no stream", async () => {
+    const { transport } = createTransport();
+    const received: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => received.push(message);
+    await transport.start();
+
+    const response = await transport.handleRequest(post([notification(1)]));
+    assert.equal(response.status, 202);
+    assert.equal(received.length, 1);
+  });
+
+  test("allows only one standalone GET stream", async () => {
+    const { transport } = createTransport();
+    await transport.start();
+
+    await transport.handleRequest(get());
+    assert.equal(transport.listening, true);
+    assert.equal((await transport.handleRequest(get())).status, 409);
+  });
+
+  test("replays missed standalone events after Last-Event-ID", async () => {
+    const { transport } = createTransport();
+    await transport.start();
+
+    for (let n = 1; n <= 3; n++) {
+      await transport.send(notification(n));
+    }
+    const events = await readEvents(await transport.handleRequest(get("standalone_1")), 2);
+    assert.deepEqual(
+      events.map((event) => [event.id, (event.data as { params: unknown }).params]),
+      [
+        ["standalone_2", { n: 2 }],
+        ["standalone_3", { n: 3 }],
+      ],
+    );
+  });
+
+  test("a dropped POST stream can be resumed once, then its events are gone", async () => {
+    const { transport, sql } = createTransport();
+    let respond: (() => Promise<void>) | undefined;
+    transport.onmessage = (message) => {
+      if ("id" in message) {
+        respond = () => transport.send({ jsonrpc: "2.0", id: message.id, result: {} });
+      }
+    };
+    await transport.start();
+
+    const response = await transport.handleRequest(post([ping(7)]));
+    await response.body!.cancel();
+    await respond!();
+    const [stored] = sql.rows;
+    assert.ok(stored, "the undelivered response is kept");
+
+    const streamId = stored.stream_id;
+    const replayed = await readEvents(await transport.handleRequest(get(`${streamId}_0`)));
+    assert.deepEqual(
+      replayed.map((event) => event.data),
+      [{ jsonrpc: "2.0", id: 7, result: {} }],
+    );
+    assert.equal(sql.rows.length, 0);
+    assert.deepEqual(await readEvents(await transport.handleRequest(get(`${streamId}_0`))), []);
+  });
+
+  test("rejects a malformed Last-Event-ID", async () => {
+    const { transport } = createTransport();
+    await transport.start();
+    assert.equal((await transport.handleRequest(get("no-sequence"))).status, 400);
+  });
+
+  test("keeps only the newest 1000 events", async () => {
+    const { transport, sql } = createTransport();
+    await transport.start();
+
+    for (let n = 1; n <= 1005; n++) {
+      await transport.send(notification(n));
+    }
+    assert.equal(sql.rows.length, 1000);
+    assert.equal(sql.rows[0].seq, 6);
+  });
+});
+
+// A stand-in for the McpAgent namespace: records what reaches each session's Durable Object
+
+class FakeSession {
+  initialized = false;
+  requests: Request[] = [];
+
+  async _init() {}
+
+  async setInitialized() {
+    this.initialized = true;
+  }
+
+  async isInitialized() {
+    return this.initialized;
+  }
+
+  async fetch(request: Request) {
+    this.requests.push(request);
+    return new Response(null, { status: 200 });
+  }
+}
+
+class FakeNamespace {
+  sessions = new Map<string, FakeSession>();
+
+  idFromName(name: string) {
+    return name;
+  }
+
+  get(name: string) {
+    let session = this.sessions.get(name);
+    if (!session) {
+      session = new FakeSession();
+      this.sessions.set(name, session);
+    }
+    return session;
+  }
+}
+
+describe("serveStreamableHttp", () => {
+  const initialize: JSONRPCMessage = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+  };
+
+  function serve() {
+    const namespace = new FakeNamespace();
+    const handler = serveStreamableHttp("/mcp");
+    const env = { MCP_OBJECT: namespace } as unknown as Env;
+    const ctx = { props: { login: "octocat" } } as unknown as ExecutionContext;
+    const fetch = (init: RequestInit & { headers?: Record<string, string> }) =>
+      handler.fetch(new Request("https://example.com/mcp", init), env, ctx);
+    return { namespace, fetch };
+  }
+
+  const postHeaders = { accept: "application/json, text/event-stream", "content-type": "application/json" };
+
+  test("POST must accept both JSON and SSE", async () => {
+    const { fetch } = serve();
+    const response = await fetch({ method: "POST", headers: { ...postHeaders, accept: "application/json" }, body: "{}" });
+    assert.equal(response.status, 406);
+  });
+
+  test("POST must be JSON", async () => {
+    const { fetch } = serve();
+    const response = await fetch({ method: "POST", headers: { ...postHeaders, "content-type": "text/plain" }, body: "{}" });
+    assert.equal(response.status, 415);
+  });
+
+  test("POST bodies over 4 MB are rejected", async () => {
+    const { fetch } = serve();
+    const response = await fetch({ method: "POST", headers: { ...postHeaders, "content-length": String(5 * 1024 * 1024) }, body: "{}" });
+    assert.equal(response.status, 413);
+  });
+
+  test("GET must accept SSE", async () => {
+    const { fetch } = serve();
+    assert.equal((await fetch({ method: "GET", headers: { accept: "application/json" } })).status, 406);
+  });
+
+  test("rejects unsupported protocol versions", async () => {
+    const { fetch } = serve();
+    const response = await fetch({ method: "GET", headers: { accept: "text/event-stream", "mcp-protocol-version": "1999-01-01" } });
+    assert.equal(response.status, 400);
+  });
+
+  test("initialize creates a session and forwards the request with its ID and the caller's login", async () => {
+    const { namespace, fetch } = serve();
+    await fetch({ method: "POST", headers: postHeaders, body: JSON.stringify(initialize) });
+
+    const [session] = namespace.sessions.values();
+    assert.equal(session.initialized, true);
+    const [forwarded] = session.requests;
+    assert.match(forwarded.headers.get(MCP_SESSION_HEADER) ?? "", /^[0-9a-f-]{36}$/);
+    assert.equal(forwarded.headers.get(MCP_LOGIN_HEADER), "octocat");
+    assert.deepEqual(await forwarded.json(), [initialize]);
+  });
+
+  test("initialize must not carry a session ID", async () => {
+    const { fetch } = serve();
+    const response = await fetch({
+      method: "POST",
+      headers: { ...postHeaders, [MCP_SESSION_HEADER]: "abc" },
+      body: JSON.stringify(initialize),
+    });
+    assert.equal(response.status, 400);
+  });
+
+  test("other requests need the session ID of an existing session", async () => {
+    const { fetch } = serve();
+    const body = JSON.stringify(ping(2));
+    assert.equal((await fetch({ method: "POST", headers: postHeaders, body })).status, 400);
+    assert.equal((await fetch({ method: "POST", headers: { ...postHeaders, [MCP_SESSION_HEADER]: "unknown" }, body })).status, 404);
+  });
+
+  test("DELETE and resuming GETs are forwarded to the session", async () => {
+    const { namespace, fetch } = serve();
+    await fetch({ method: "POST", headers: postHeaders, body: JSON.stringify(initialize) });
+    const [session] = namespace.sessions.values();
+    const sessionId = session.requests[0].headers.get(MCP_SESSION_HEADER)!;
+
+    await fetch({
+      method: "GET",
+      headers: { accept: "text/event-stream", [MCP_SESSION_HEADER]: sessionId, "last-event-id": "standalone_3" },
+    });
+    await fetch({ method: "DELETE", headers: { [MCP_SESSION_HEADER]: sessionId } });
+    assert.deepEqual(
+      session.requests.slice(1).map((request) => [request.method, request.headers.get("last-event-id")]),
+      [
+        ["GET", "standalone_3"],
+        ["DELETE", null],
+      ],
+    );
+  });
+
+  test("other methods are not allowed", async () => {
+    const { fetch } = serve();
+    const response = await fetch({ method: "PUT" });
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get("allow"), "GET, POST, DELETE");
+  });
+});
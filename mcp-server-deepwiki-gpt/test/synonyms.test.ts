@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parseQuery } from "../src/query-parser";
+import { DEFAULT_SYNONYMS, SYNONYM_WEIGHT, SynonymDictionary } from "../src/synonyms";
+
+function expand(dictionary: SynonymDictionary, query: string, weights = new Map<string, number>()) {
+  return dictionary.expand({ query: parseQuery(query), weights });
+}
+
+describe("SynonymDictionary", () => {
+  const dictionary = new SynonymDictionary([
+    ["sse", "server-sent events"],
+    ["auth", "oauth", "authentication"],
+  ]);
+
+  test("ORs an entry's other phrases into the group, at a lower weight", () => {
+    const { query, weights } = expand(dictionary, "sse transport");
+    assert.deepEqual(
+      query.groups[0].map((clause) => clause.text),
+      ["sse", "server-sent events"],
+    );
+    assert.deepEqual(
+      query.groups[1].map((clause) => clause.text),
+      ["transport"],
+    );
+    assert.equal(weights.get("server"), SYNONYM_WEIGHT);
+    assert.equal(weights.get("event"), SYNONYM_WEIGHT);
+  });
+
+  test("an unquoted phrase spanning several groups gets its synonyms in each", () => {
+    const { query } = expand(dictionary, "server sent events");
+    assert.equal(query.groups.length, 3);
+    for (const group of query.groups) {
+      assert.ok(group.some((clause) => clause.text === "sse"));
+    }
+  });
+
+  test("words the query already has keep their weight", () => {
+    const { weights } = expand(dictionary, "auth oauth");
+    assert.equal(weights.has("auth"), false);
+    assert.equal(weights.has("oauth"), false);
+    assert.equal(weights.get("authent"), SYNONYM_WEIGHT);
+  });
+
+  test("synonyms of typo corrections are weighted below the correction", () => {
+    const { weights } = expand(dictionary, "sse", new Map([["sse", 0.5]]));
+    assert.equal(weights.get("server"), SYNONYM_WEIGHT * 0.5);
+  });
+
+  test("drops entries left with fewer than two phrases after analysis", () => {
+    assert.equal(new SynonymDictionary([["the", "mcp"]]).size, 0);
+  });
+
+  test("a word whose stem is a common word only matches as written", () => {
+    const defaults = new SynonymDictionary(DEFAULT_SYNONYMS);
+    const texts = (query: string) => expand(defaults, query).query.groups[0].map((clause) => clause.text);
+
+    assert.deepEqual(texts("author"), ["author"]);
+    assert.deepEqual(texts("authorization"), ["authorization", "auth", "oauth", "authentication"]);
+    assert.deepEqual(texts("auth"), ["auth", "oauth", "authentication"], "authorization would search for author");
+  });
+});
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { analyze, stem, tokenize } from "../src/text-analysis";
+
+describe("tokenize", () => {
+  test("splits on anything but letters and digits, lowercased", () => {
+    assert.deepEqual(tokenize("Client-side OAuth 2.1"), ["client", "side", "oauth", "2", "1"]);
+  });
+});
+
+describe("analyze", () => {
+  test("drops stop-words and punctuation", () => {
+    assert.deepEqual(analyze("How do the tools work?"), ["tool", "work"]);
+  });
+
+  test("stems words to a shared root", () => {
+    assert.equal(stem("connections"), "connect");
+    assert.equal(stem("connected"), "connect");
+    assert.equal(stem("connecting"), "connect");
+  });
+
+  test("leaves short words and numbers alone", () => {
+    assert.equal(stem("is"), "is");
+    assert.equal(stem("2024"), "2024");
+  });
+});
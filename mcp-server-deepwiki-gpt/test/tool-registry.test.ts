@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult, ListToolsResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { INVALID_PARAMS, JsonRpcError } from "../src/jsonrpc";
+import { observeProtocolVersion, type ProtocolVersion } from "../src/protocol";
+import { defineTool, ToolRegistry, type ToolContext } from "../src/tools/registry";
+import { connectServer } from "./helpers";
+
+const echoTool = defineTool({
+  name: "echo",
+  description: "Echoes its input.",
+  inputSchema: { text: z.string() },
+  outputSchema: { text: z.string() },
+  handler: ({ text }) => ({ content: [{ type: "text", text }], structuredContent: { text } }),
+});
+
+const context = { search: {}, props: {}, env: {}, canRead: () => true } as unknown as ToolContext;
+
+describe("ToolRegistry", () => {
+  const registry = new ToolRegistry().register(echoTool);
+  const invalidParams = (check: (error: JsonRpcError) => void) => (error: unknown) => {
+    assert.ok(error instanceof JsonRpcError && error.code === INVALID_PARAMS);
+    check(error);
+    return true;
+  };
+
+  test("rejects registering a name twice", () => {
+    assert.throws(() => new ToolRegistry().register(echoTool).register(echoTool), /already registered/);
+  });
+
+  test("call() returns structuredContent only when asked to", async () => {
+    assert.deepEqual((await registry.call("echo", { text: "hi" }, context, true)).structuredContent, { text: "hi" });
+    assert.equal((await registry.call("echo", { text: "hi" }, context, false)).structuredContent, undefined);
+  });
+
+  test("call() rejects unknown tools as invalid params", async () => {
+    await assert.rejects(
+      registry.call("missing", {}, context, true),
+      invalidParams((error) => assert.equal(error.message, "Unknown tool: missing")),
+    );
+  });
+
+  test("call() rejects unknown properties", async () => {
+    await assert.rejects(
+      registry.call("echo", { text: "hi", extra: true }, context, true),
+      invalidParams((error) =>
+        assert.deepEqual(error.data, {
+          tool: "echo",
+          issues: [{ field: "arguments", message: "Unrecognized key(s) in object: 'extra'" }],
+        }),
+      ),
+    );
+  });
+
+  test("call() lists every invalid field in data.issues", async () => {
+    await assert.rejects(
+      registry.call("echo", {}, context, true),
+      invalidParams((error) => {
+        assert.deepEqual(error.data, { tool: "echo", issues: [{ field: "text", message: "Required" }] });
+        assert.equal(error.message, "Invalid arguments for tool echo: text: Required");
+      }),
+    );
+  });
+
+  test("call() turns handler failures into an isError result", async () => {
+    const failing = new ToolRegistry().register(
+      defineTool({
+        name: "fail",
+        description: "Always fails.",
+        inputSchema: {},
+        handler: () => {
+          throw new Error("boom");
+        },
+      }),
+    );
+    assert.deepEqual(await failing.call("fail", undefined, context, true), { content: [{ type: "text", text: "boom" }], isError: true });
+  });
+
+  test("list() pages through tools in registration order", () => {
+    const many = new ToolRegistry(2);
+    for (const name of ["a", "b", "c"]) {
+      many.register({ ...echoTool, name });
+    }
+    const first = many.list(undefined, true);
+    assert.deepEqual(
+      first.tools.map((tool) => tool.name),
+      ["a", "b"],
+    );
+    const second = many.list(first.nextCursor, true);
+    assert.deepEqual(
+      second.tools.map((tool) => tool.name),
+      ["c"],
+    );
+    assert.equal(second.nextCursor, undefined);
+  });
+
+  test("list() describes input as a closed JSON schema, and output only when asked to", () => {
+    const [withOutput] = registry.list(undefined, true).tools;
+    assert.deepEqual(withOutput.inputSchema, {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+      additionalProperties: false,
+    });
+    assert.ok(withOutput.outputSchema);
+    assert.equal(registry.list(undefined, false).tools[0].outputSchema, undefined);
+  });
+});
+
+describe("ToolRegistry.registerWithServer", () => {
+  async function initialize(protocolVersion: string) {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    let negotiated: ProtocolVersion = "2025-03-26";
+    observeProtocolVersion(server.server, (version) => {
+      negotiated = version;
+    });
+    new ToolRegistry().register(echoTool).registerWithServer(
+      server,
+      () => context,
+      () => negotiated,
+    );
+    const session = await connectServer(server);
+    await session.request("initialize", { protocolVersion, capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } });
+    return session;
+  }
+
+  test("sends outputSchema and structuredContent to 2025-06-18 clients", async () => {
+    const session = await initialize("2025-06-18");
+    const list = await session.request<ListToolsResult>("tools/list");
+    assert.ok(list.result?.tools[0].outputSchema);
+    const call = await session.request<CallToolResult>("tools/call", { name: "echo", arguments: { text: "hi" } });
+    assert.deepEqual(call.result?.structuredContent, { text: "hi" });
+  });
+
+  test("leaves them out for clients on an older revision", async () => {
+    const session = await initialize("2024-11-05");
+    const list = await session.request<ListToolsResult>("tools/list");
+    assert.equal(list.result?.tools[0].outputSchema, undefined);
+    const call = await session.request<CallToolResult>("tools/call", { name: "echo", arguments: { text: "hi" } });
+    assert.equal(call.result?.structuredContent, undefined);
+    assert.deepEqual(call.result?.content, [{ type: "text", text: "hi" }]);
+  });
+
+  test("invalid arguments are invalid params, as on the stateless endpoint", async () => {
+    const session = await initialize("2025-06-18");
+    const call = await session.request("tools/call", { name: "echo", arguments: { text: 1 } });
+    assert.equal(call.error?.code, -32602);
+  });
+});
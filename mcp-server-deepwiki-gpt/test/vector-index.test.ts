@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { chunkDocument } from "../src/chunking";
+import { DeepWikiSearch } from "../src/deepwiki-data";
+import { MemoryDocumentStore } from "../src/document-store";
+import { HashingEmbedder } from "../src/embeddings";
+import { decodeVector, encodeVector, VectorIndex } from "../src/vector-index";
+import { makeDocument } from "./helpers";
+
+// Counts the texts it is asked to embed
+class CountingEmbedder extends HashingEmbedder {
+  embedded = 0;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded += texts.length;
+    return super.embed(texts);
+  }
+}
+
+const documents = [
+  makeDocument("transports", "Remote servers speak Streamable HTTP to their clients."),
+  makeDocument("auth", "Clients authenticate to remote servers with OAuth tokens."),
+  makeDocument("billing", "Invoices are sent monthly."),
+];
+
+describe("HashingEmbedder", () => {
+  const embedder = new HashingEmbedder(256);
+
+  test("returns one deterministic unit vector per text", async () => {
+    const [a, b] = await embedder.embed(["streamable http transport", "streamable http transport"]);
+    assert.equal(a.length, 256);
+    assert.deepEqual(a, b);
+    assert.ok(Math.abs(Math.hypot(...a) - 1) < 1e-9);
+  });
+
+  test("texts sharing words are more similar than unrelated ones", async () => {
+    const [query, related, unrelated] = await embedder.embed(["oauth tokens", "OAuth access tokens", "monthly invoices"]);
+    const similarity = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+    assert.ok(similarity(query, related) > embedder.minSimilarity);
+    assert.ok(similarity(query, unrelated) < embedder.minSimilarity);
+  });
+});
+
+describe("VectorIndex", () => {
+  test("ranks chunks by similarity to the query", async () => {
+    const index = new VectorIndex(new HashingEmbedder());
+    await index.index(documents.flatMap(chunkDocument));
+    const [best] = await index.search("authenticate with oauth", 5);
+    assert.equal(best.chunk.document.id, "auth");
+  });
+
+  test("embeds only passages it hasn't seen", async () => {
+    const embedder = new CountingEmbedder();
+    const index = new VectorIndex(embedder);
+    await index.index(documents.flatMap(chunkDocument));
+    await index.index([...documents, makeDocument("new", "Something new.")].flatMap(chunkDocument));
+    assert.equal(embedder.embedded, 4);
+  });
+
+  test("loads saved embeddings instead of embedding again", async () => {
+    const saved = new Map<string, Record<string, string>>();
+    const storage = {
+      load: async () => saved.get("hash") ?? null,
+      save: async (embeddings: Record<string, string>) => void saved.set("hash", embeddings),
+    };
+
+    const first = new CountingEmbedder();
+    await new VectorIndex(first, storage).index(documents.flatMap(chunkDocument));
+    assert.equal(first.embedded, 3);
+    assert.equal(Object.keys(saved.get("hash")!).length, 3);
+
+    const second = new CountingEmbedder();
+    const index = new VectorIndex(second, storage);
+    await index.index(documents.flatMap(chunkDocument));
+    assert.equal(second.embedded, 0);
+    const [best] = await index.search("streamable http", 1);
+    assert.equal(best.chunk.document.id, "transports");
+  });
+
+  test("a failing storage only costs re-embedding", async () => {
+    const embedder = new CountingEmbedder();
+    const storage = {
+      load: async () => Promise.reject(new Error("unavailable")),
+      save: async () => Promise.reject(new Error("unavailable")),
+    };
+    await new VectorIndex(embedder, storage).index(documents.flatMap(chunkDocument));
+    assert.equal(embedder.embedded, 3);
+  });
+
+  test("vectors survive encoding at float32 precision", () => {
+    const vector = [0.5, -0.25, 1 / 3];
+    decodeVector(encodeVector(vector)).forEach((value, i) => assert.ok(Math.abs(value - vector[i]) < 1e-7));
+  });
+});
+
+describe("DeepWikiSearch with embeddings", () => {
+  test("saves embeddings in the document store for other instances", async () => {
+    const store = new MemoryDocumentStore(documents, []);
+    const first = new CountingEmbedder();
+    const search = new DeepWikiSearch(store, first);
+    await search.load();
+    await search.searchPassages("oauth");
+    assert.equal(first.embedded, 3 + 1, "passages plus the query");
+
+    const second = new CountingEmbedder();
+    const other = new DeepWikiSearch(store, second);
+    await other.load();
+    const { passages } = await other.searchPassages("oauth");
+    assert.equal(second.embedded, 1, "only the query");
+    assert.equal(passages[0].document.id, "auth");
+  });
+});
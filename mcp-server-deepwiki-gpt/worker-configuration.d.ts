@@ -7,8 +7,15 @@ declare namespace Cloudflare {
 		GITHUB_CLIENT_ID: "1234567890";
 		GITHUB_CLIENT_SECRET: "1234567890";
 		COOKIE_ENCRYPTION_KEY: "1234567890";
-		MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
+		MCP_OBJECT: DurableObjectNamespace<import("./src/index").DeepWikiGptMCP>;
 		AI: Ai;
+		DOCS_KV?: KVNamespace;
+		DOCS_BUCKET?: R2Bucket;
+		ADMIN_LOGINS?: string;
+		GITHUB_API_URL?: string;
+		GITHUB_RAW_URL?: string;
+		EMBEDDER?: string;
+		ANSWERER?: string;
 	}
 }
 interface Env extends Cloudflare.Env {}
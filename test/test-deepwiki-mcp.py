@@ -6,13 +6,15 @@ Tests the search and fetch functionality via SSE transport
 
 import asyncio
 import json
+import os
 import aiohttp
 import sys
 from typing import Dict, Any
 
 class MCPTestClient:
-    def __init__(self, base_url: str):
+    def __init__(self, base_url: str, access_token: str = None):
         self.base_url = base_url
+        self.access_token = access_token
         self.session = None
         self.request_id = 1
     
@@ -41,14 +43,19 @@ class MCPTestClient:
             "params": params
         }
         
+        headers = {
+            "Content-Type": "application/json",
+            "Accept": "text/event-stream"
+        }
+        # /sse is protected by the OAuth provider
+        if self.access_token:
+            headers["Authorization"] = f"Bearer {self.access_token}"
+        
         try:
             async with self.session.post(
                 f"{self.base_url}/sse",
                 json=request_data,
-                headers={
-                    "Content-Type": "application/json",
-                    "Accept": "text/event-stream"
-                }
+                headers=headers
             ) as response:
                 if response.status != 200:
                     print(f"HTTP Error: {response.status}")
@@ -127,8 +134,9 @@ class MCPTestClient:
 
 async def main():
     base_url = "http://localhost:8788"
+    access_token = os.getenv("DEEPWIKI_ACCESS_TOKEN")
     
-    async with MCPTestClient(base_url) as client:
+    async with MCPTestClient(base_url, access_token) as client:
         # Test initialization
         init_response = await client.test_initialize()
         if "error" in init_response: